@@ -1,30 +1,101 @@
 // App.tsx
 // Quran 15-line Mushaf App - Direct API version (Expo Go compatible)
 import React, { useState, useEffect } from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, createNavigationContainerRef } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
-import { View, Text, ActivityIndicator, StyleSheet, I18nManager } from 'react-native';
+import { View, Text, ActivityIndicator, StyleSheet, I18nManager, AppState } from 'react-native';
+import * as Notifications from 'expo-notifications';
 import { ReaderScreen } from './src/screens/ReaderScreen';
+import { LibraryScreen } from './src/screens/LibraryScreen';
+import { SurahIndexScreen } from './src/screens/SurahIndexScreen';
+import { DivisionsScreen } from './src/screens/DivisionsScreen';
+import { BookmarksScreen } from './src/screens/BookmarksScreen';
+import { ReadingHistoryScreen } from './src/screens/ReadingHistoryScreen';
+import { StatisticsScreen } from './src/screens/StatisticsScreen';
+import { KhatmScreen } from './src/screens/KhatmScreen';
+import { RemindersScreen } from './src/screens/RemindersScreen';
+import { StorageScreen } from './src/screens/StorageScreen';
+import { getMainDatabase } from './src/database/schema';
+import { getReminderTarget, rescheduleWirdReminders } from './src/services/WirdReminders';
+import { downloadManager } from './src/services/DownloadManager';
+import { useMushafStore, restoreCurrentMushaf } from './src/store/mushafStore';
 
 // Force RTL layout for Arabic
 I18nManager.allowRTL(true);
 I18nManager.forceRTL(false);
 
 export type RootStackParamList = {
-  Reader: undefined;
+  Reader: { mushafId?: number; page?: number } | undefined;
+  Library: undefined;
+  SurahIndex: undefined;
+  Divisions: undefined;
+  Bookmarks: undefined;
+  History: undefined;
+  Statistics: undefined;
+  Khatm: undefined;
+  Reminders: undefined;
+  Storage: undefined;
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+// Opens the reader on the page of a tapped wird reminder
+function openReminder(response: Notifications.NotificationResponse) {
+  const target = getReminderTarget(response);
+  if (target && navigationRef.isReady()) {
+    navigationRef.navigate('Reader', target);
+  }
+}
+
+function refreshReminders() {
+  rescheduleWirdReminders().catch(error => console.log('Error scheduling reminders:', error));
+}
 
 export default function App() {
   const [isReady, setIsReady] = useState(false);
 
   useEffect(() => {
-    setIsReady(true);
+    // Installed Mushafs are recorded in the main DB, create its tables first,
+    // then check them against the files before any screen reads them
+    getMainDatabase()
+      .then(() => downloadManager.reconcileInstalledMushafs()
+        .then(rows => useMushafStore.getState().setInstalledMushafs(rows.map(row => row.id)))
+        .catch(error => console.error('Error reconciling installed Mushafs:', error))
+        // The reader opens on the Mushaf of the previous session, offline if it is installed
+        .then(restoreCurrentMushaf)
+        .catch(error => console.error('Error restoring current Mushaf:', error))
+        // Downloads queued before the app was closed pick up where they left off
+        .then(() => downloadManager.startDownloadQueue()))
+      .then(refreshReminders)
+      .catch(error => console.error('Error initializing database:', error))
+      .finally(() => setIsReady(true));
+
+    // Reminder messages follow the reading progress of the day
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'background') {
+        refreshReminders();
+      }
+    });
+    const responseSubscription = Notifications.addNotificationResponseReceivedListener(openReminder);
+
+    return () => {
+      appStateSubscription.remove();
+      responseSubscription.remove();
+    };
   }, []);
 
+  // A reminder tapped while the app was closed
+  const handleNavigationReady = async () => {
+    const response = await Notifications.getLastNotificationResponseAsync();
+    if (response) {
+      openReminder(response);
+      await Notifications.clearLastNotificationResponseAsync();
+    }
+  };
+
   if (!isReady) {
     return (
       <View style={styles.loadingContainer}>
@@ -37,7 +108,7 @@ export default function App() {
   return (
     <SafeAreaProvider>
       <StatusBar style="light" />
-      <NavigationContainer>
+      <NavigationContainer ref={navigationRef} onReady={handleNavigationReady}>
         <Stack.Navigator
           initialRouteName="Reader"
           screenOptions={{
@@ -60,6 +131,78 @@ export default function App() {
               headerTitleAlign: 'center'
             }}
           />
+          <Stack.Screen
+            name="Library"
+            component={LibraryScreen}
+            options={{
+              title: 'المكتبة',
+              headerTitleAlign: 'center'
+            }}
+          />
+          <Stack.Screen
+            name="SurahIndex"
+            component={SurahIndexScreen}
+            options={{
+              title: 'فهرس السور',
+              headerTitleAlign: 'center'
+            }}
+          />
+          <Stack.Screen
+            name="Divisions"
+            component={DivisionsScreen}
+            options={{
+              title: 'الأجزاء والأحزاب',
+              headerTitleAlign: 'center'
+            }}
+          />
+          <Stack.Screen
+            name="Bookmarks"
+            component={BookmarksScreen}
+            options={{
+              title: 'العلامات',
+              headerTitleAlign: 'center'
+            }}
+          />
+          <Stack.Screen
+            name="History"
+            component={ReadingHistoryScreen}
+            options={{
+              title: 'سجل القراءة',
+              headerTitleAlign: 'center'
+            }}
+          />
+          <Stack.Screen
+            name="Statistics"
+            component={StatisticsScreen}
+            options={{
+              title: 'الإحصائيات',
+              headerTitleAlign: 'center'
+            }}
+          />
+          <Stack.Screen
+            name="Khatm"
+            component={KhatmScreen}
+            options={{
+              title: 'الختمة',
+              headerTitleAlign: 'center'
+            }}
+          />
+          <Stack.Screen
+            name="Reminders"
+            component={RemindersScreen}
+            options={{
+              title: 'تذكير الورد',
+              headerTitleAlign: 'center'
+            }}
+          />
+          <Stack.Screen
+            name="Storage"
+            component={StorageScreen}
+            options={{
+              title: 'التخزين',
+              headerTitleAlign: 'center'
+            }}
+          />
         </Stack.Navigator>
       </NavigationContainer>
     </SafeAreaProvider>
@@ -1,69 +1,139 @@
 // src/components/MushafPageRenderer.tsx
-// Real data version using quran.com API
-import React, { useEffect, useState, useCallback } from 'react';
-import { View, StyleSheet, ActivityIndicator, Text } from 'react-native';
+// Renders a page from any PageDataSource (quran.com API, installed Mushaf, fixtures)
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import { View, StyleSheet, ActivityIndicator, Text, TouchableOpacity } from 'react-native';
 import { WebView } from 'react-native-webview';
-import {
-  fetchPageWithWords,
-  processPageData,
-  ProcessedPage,
-  APIWord
-} from '../services/QuranAPI';
+import { ProcessedPage, PageLine, APIWord, PageDataError } from '../services/QuranAPI';
+import { CommonFonts, PageDataSource, PageFont } from '../services/PageDataSource';
+import { apiPageDataSource } from '../services/ApiPageDataSource';
+import { getRubLabel } from '../services/QuranDivisions';
+import { NotFoundError, OfflineError, ParseError, ServerError } from '../services/HttpClient';
+import { loadPreparedPage, peekPreparedPage } from '../services/PagePrefetcher';
 
 interface Props {
   pageNumber: number;
   fontVersion?: 'v1' | 'v2';
+  dataSource?: PageDataSource;
   onWordPress?: (word: APIWord) => void;
-  onPageLoaded?: () => void;
+  onWordLongPress?: (word: APIWord) => void;
+  onPageLoaded?: (page: ProcessedPage) => void;
+  highlightWordIds?: number[]; // Briefly highlighted, e.g. after "go to verse"
+  onHighlightDone?: () => void;
+}
+
+const HIGHLIGHT_DURATION_MS = 2500;
+
+/**
+ * Title and hint shown for a page that failed to load
+ */
+function describeLoadError(error: Error): { title: string; detail: string } {
+  if (error instanceof OfflineError) {
+    return error.timedOut
+      ? { title: 'انتهت مهلة الاتصال', detail: 'الخادم لا يستجيب، تحقق من اتصالك ثم أعد المحاولة' }
+      : { title: 'لا يوجد اتصال بالإنترنت', detail: 'هذه الصفحة غير محفوظة على الجهاز، اتصل بالإنترنت ثم أعد المحاولة' };
+  }
+  if (error instanceof NotFoundError) {
+    return { title: 'الصفحة غير موجودة', detail: 'لم يعثر الخادم على بيانات هذه الصفحة' };
+  }
+  if (error instanceof ServerError) {
+    return { title: 'الخادم غير متاح حالياً', detail: 'حدث خطأ في الخادم، أعد المحاولة بعد قليل' };
+  }
+  if (error instanceof ParseError || error instanceof PageDataError) {
+    return { title: 'بيانات غير صالحة', detail: 'وصلت استجابة غير متوقعة من الخادم' };
+  }
+  return { title: 'خطأ في تحميل الصفحة', detail: error.message };
 }
 
 export function MushafPageRenderer({
   pageNumber,
   fontVersion = 'v1',
+  dataSource = apiPageDataSource,
   onWordPress,
-  onPageLoaded
+  onWordLongPress,
+  onPageLoaded,
+  highlightWordIds,
+  onHighlightDone
 }: Props) {
+  const webViewRef = useRef<WebView>(null);
   const [htmlContent, setHtmlContent] = useState<string>('');
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  // Loads can resolve out of order, only the latest one is applied
+  const latestRequest = useRef(0);
 
   const generatePageHTML = useCallback(async () => {
-    setLoading(true);
+    const request = ++latestRequest.current;
+
+    // A prefetched page is shown right away, without the spinner
+    const prepared = peekPreparedPage(dataSource, pageNumber, fontVersion);
+    if (!prepared) {
+      setLoading(true);
+    }
     setError(null);
 
     try {
-      // Fetch real data from quran.com API
-      const pageData = await fetchPageWithWords(pageNumber);
-      const processedPage = processPageData(pageData, pageNumber);
+      // Fetch real data from the current source (API, installed Mushaf...)
+      const { page: processedPage, font, commonFonts } = prepared
+        ?? await loadPreparedPage(dataSource, pageNumber, fontVersion);
+      if (request !== latestRequest.current) {
+        return;
+      }
 
       // Generate HTML with the real data
-      const html = generateHTML(processedPage, pageNumber, fontVersion);
+      const html = generateHTML(processedPage, pageNumber, fontVersion, font, commonFonts);
 
       setHtmlContent(html);
       setLoading(false);
-      onPageLoaded?.();
+      onPageLoaded?.(processedPage);
 
     } catch (err) {
+      if (request !== latestRequest.current) {
+        return;
+      }
       console.error('Error generating page:', err);
-      setError((err as Error).message);
+      setError(err as Error);
       setLoading(false);
     }
-  }, [pageNumber, fontVersion, onPageLoaded]);
+  }, [pageNumber, fontVersion, dataSource, onPageLoaded]);
 
   useEffect(() => {
     generatePageHTML();
+    // Drops the result of a load still running when the page changes or the reader closes
+    return () => {
+      latestRequest.current++;
+    };
   }, [generatePageHTML]);
 
+  // Highlight once the page is rendered in the WebView
+  const applyHighlight = useCallback(() => {
+    if (!highlightWordIds || highlightWordIds.length === 0) {
+      return;
+    }
+    webViewRef.current?.injectJavaScript(
+      `highlightWords(${JSON.stringify(highlightWordIds)}, ${HIGHLIGHT_DURATION_MS}); true;`
+    );
+    const timer = setTimeout(() => onHighlightDone?.(), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [highlightWordIds, onHighlightDone]);
+
+  useEffect(() => {
+    if (!loading) {
+      return applyHighlight();
+    }
+  }, [loading, applyHighlight]);
+
   const handleMessage = useCallback((event: { nativeEvent: { data: string } }) => {
     try {
       const data = JSON.parse(event.nativeEvent.data);
       if (data.type === 'word_click' && onWordPress) {
         onWordPress(data.word);
+      } else if (data.type === 'word_long_press' && onWordLongPress) {
+        onWordLongPress(data.word);
       }
     } catch (err) {
       console.error('Error parsing WebView message:', err);
     }
-  }, [onWordPress]);
+  }, [onWordPress, onWordLongPress]);
 
   if (loading) {
     return (
@@ -75,18 +145,24 @@ export function MushafPageRenderer({
   }
 
   if (error) {
+    const { title, detail } = describeLoadError(error);
     return (
       <View style={styles.error}>
-        <Text style={styles.errorIcon}>⚠️</Text>
-        <Text style={styles.errorText}>خطأ في تحميل الصفحة</Text>
-        <Text style={styles.errorDetail}>{error}</Text>
+        <Text style={styles.errorIcon}>{error instanceof OfflineError ? '📡' : '⚠️'}</Text>
+        <Text style={styles.errorText}>{title}</Text>
+        <Text style={styles.errorDetail}>{detail}</Text>
+        <TouchableOpacity style={styles.retryButton} onPress={generatePageHTML}>
+          <Text style={styles.retryButtonText}>إعادة المحاولة</Text>
+        </TouchableOpacity>
       </View>
     );
   }
 
   return (
     <WebView
+      ref={webViewRef}
       source={{ html: htmlContent }}
+      onLoadEnd={applyHighlight}
       style={styles.webview}
       scalesPageToFit={false}
       showsVerticalScrollIndicator={false}
@@ -99,25 +175,56 @@ export function MushafPageRenderer({
   );
 }
 
+const BISMILLAH_TEXT = 'بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ';
+
+function fontFaceCSS(font: PageFont | null): string {
+  return font ? `
+    @font-face {
+      font-family: '${font.family}';
+      src: url('${font.src}') format('${font.format}');
+      font-display: swap;
+    }` : '';
+}
+
+/**
+ * Generates a surah header line, with the common fonts when available
+ */
+function generateHeaderHTML(line: PageLine, commonFonts: CommonFonts): string {
+  if (line.lineType === 'basmallah') {
+    const content = commonFonts.bismillah ? '\uFDFD' : BISMILLAH_TEXT;
+    return `<div class="line line--header" data-line="${line.lineNumber}">
+        <span class="basmallah">${content}</span>
+      </div>`;
+  }
+
+  const surahNumber = line.surahNumber ?? 0;
+  const content = commonFonts.surahNames
+    ? `surah${surahNumber.toString().padStart(3, '0')}`
+    : `سورة ${line.surahNameArabic ?? surahNumber}`;
+  return `<div class="line line--header" data-line="${line.lineNumber}" data-surah="${surahNumber}">
+        <span class="surah-name">${content}</span>
+      </div>`;
+}
+
 /**
  * Generates HTML for a Mushaf page with 15 lines (or 8 for pages 1-2)
  */
 function generateHTML(
   processedPage: ProcessedPage,
   pageNumber: number,
-  fontVersion: 'v1' | 'v2'
+  fontVersion: 'v1' | 'v2',
+  font: PageFont | null,
+  commonFonts: CommonFonts
 ): string {
-  // Use QCF (Quran Complex Font) - page-specific fonts with proper glyph codes
-  const paddedPage = pageNumber.toString().padStart(3, '0');
-  const fontFamily = `QCF_P${paddedPage}`;
-
-  // GitHub-hosted QCF fonts (mustafa0x/qpc-fonts repository)
-  const fontUrl = fontVersion === 'v2'
-    ? `https://raw.githubusercontent.com/mustafa0x/qpc-fonts/master/mushaf-v2-woff2/QCF_P${paddedPage}.woff2`
-    : `https://raw.githubusercontent.com/mustafa0x/qpc-fonts/master/mushaf-woff2/QCF_P${paddedPage}.woff2`;
+  // Without a page font, glyph codes are plain Unicode text (fixtures)
+  const fontFamily = font?.family ?? 'Traditional Arabic';
 
   // Generate lines HTML using QCF glyph codes
   const linesHTML = processedPage.lines.map((line) => {
+    if (line.lineType !== 'ayah') {
+      return generateHeaderHTML(line, commonFonts);
+    }
+
     if (line.words.length === 0) {
       // Empty line placeholder
       return `<div class="line line--empty" data-line="${line.lineNumber}"></div>`;
@@ -127,25 +234,34 @@ function generateHTML(
     const wordsHTML = line.words.map((word, idx) => {
       const glyphCode = fontVersion === 'v1' ? word.code_v1 : (word.code_v2 || word.code_v1);
       const isEnd = word.char_type_name === 'end';
-
-      return `<span 
-        class="word ${isEnd ? 'word--end' : ''}" 
-        data-id="${word.id}"
-        data-position="${word.position}"
-        onclick="handleWordClick(${JSON.stringify({
+      const payload = JSON.stringify({
         id: word.id,
         position: word.position,
         text: word.text,
         translation: word.translation?.text || '',
         transliteration: word.transliteration?.text || '',
         page_number: word.page_number,
-        line_number: word.line_number
-      }).replace(/"/g, '&quot;')})"
+        line_number: word.line_number,
+        verse_key: word.verse_key
+      }).replace(/"/g, '&quot;');
+
+      return `<span 
+        class="word ${isEnd ? 'word--end' : ''}" 
+        data-id="${word.id}"
+        data-position="${word.position}"
+        data-word="${payload}"
+        onclick="handleWordClick(${payload})"
       >${glyphCode}</span>`;
     }).join('');
 
+    // Rub' al-hizb marker in the page margin, like a printed Mushaf
+    const rubMarkerHTML = line.rubStart
+      ? `<span class="rub-marker" title="${getRubLabel(line.rubStart)}">۞</span>`
+      : '';
+
     return `
       <div class="line" data-line="${line.lineNumber}">
+        ${rubMarkerHTML}
         ${wordsHTML}
       </div>
     `;
@@ -160,12 +276,7 @@ function generateHTML(
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no">
-  <style>
-    @font-face {
-      font-family: '${fontFamily}';
-      src: url('${fontUrl}') format('woff2');
-      font-display: swap;
-    }
+  <style>${fontFaceCSS(font)}${fontFaceCSS(commonFonts.surahNames)}${fontFaceCSS(commonFonts.bismillah)}
     
     * {
       margin: 0;
@@ -183,6 +294,7 @@ function generateHTML(
       background: #fefcf3;
       direction: rtl;
       -webkit-user-select: none;
+      -webkit-touch-callout: none;
       user-select: none;
       -webkit-tap-highlight-color: transparent;
       margin: 0;
@@ -193,7 +305,7 @@ function generateHTML(
       width: 100%;
       max-width: 100%;
       background: #fefcf3;
-      padding: 8px 4px;
+      padding: 8px 4px 8px 18px; /* Left margin for rub' markers */
       box-sizing: border-box;
     }
     
@@ -208,10 +320,19 @@ function generateHTML(
       align-items: center;
       flex-wrap: nowrap;
       direction: rtl;
+      position: relative;
       padding: 1px 0;
       ${pageNumber <= 2 ? 'gap: 4px;' : ''}
     }
     
+    .rub-marker {
+      position: absolute;
+      left: -14px;
+      font-family: 'Amiri', 'Traditional Arabic', serif;
+      font-size: 14px;
+      color: #8b6d3b;
+    }
+
     .line:last-child {
       border-bottom: none;
     }
@@ -220,6 +341,33 @@ function generateHTML(
       min-height: ${baseFontSize}px;
     }
     
+    /* ============================================
+       SURAH HEADERS - surah name and basmallah
+       ============================================ */
+    .line--header {
+      justify-content: center;
+    }
+
+    .surah-name {
+      display: block;
+      width: 100%;
+      text-align: center;
+      font-family: ${commonFonts.surahNames ? `'${commonFonts.surahNames.family}'` : "'Amiri', 'Traditional Arabic', serif"};
+      font-size: ${commonFonts.surahNames ? baseFontSize + 10 : baseFontSize - 2}px;
+      line-height: 1.4;
+      color: #1e6f5c;
+      border: 2px solid #c9a96e;
+      border-radius: 6px;
+      background: #f4ecd8;
+    }
+
+    .basmallah {
+      font-family: ${commonFonts.bismillah ? `'${commonFonts.bismillah.family}'` : "'Amiri', 'Traditional Arabic', serif"};
+      font-size: ${commonFonts.bismillah ? baseFontSize + 8 : baseFontSize - 2}px;
+      line-height: 1.4;
+      color: #1a1a1a;
+    }
+
     /* ============================================
        WORDS - QCF glyph fonts
        ============================================ */
@@ -240,6 +388,10 @@ function generateHTML(
       transform: scale(1.02);
     }
     
+    .word--highlight {
+      background-color: rgba(201, 169, 110, 0.45);
+    }
+
     .word--end {
       color: #1e6f5c;
       font-size: ${baseFontSize - 2}px;
@@ -287,7 +439,48 @@ function generateHTML(
   </div>
   
   <script>
+    function highlightWords(ids, duration) {
+      var elements = ids
+        .map(function (id) { return document.querySelector('[data-id="' + id + '"]'); })
+        .filter(Boolean);
+      elements.forEach(function (el) { el.classList.add('word--highlight'); });
+      if (elements.length > 0) {
+        elements[0].scrollIntoView({ block: 'center' });
+      }
+      setTimeout(function () {
+        elements.forEach(function (el) { el.classList.remove('word--highlight'); });
+      }, duration);
+    }
+
+    // Long press on a word (e.g. to bookmark its verse), the following click is ignored
+    var LONG_PRESS_MS = 550;
+    var pressTimer = null;
+    var longPressed = false;
+
+    document.addEventListener('touchstart', function (event) {
+      var el = event.target.closest && event.target.closest('.word');
+      if (!el) return;
+      longPressed = false;
+      pressTimer = setTimeout(function () {
+        longPressed = true;
+        if (window.ReactNativeWebView) {
+          window.ReactNativeWebView.postMessage(JSON.stringify({
+            type: 'word_long_press',
+            word: JSON.parse(el.dataset.word)
+          }));
+        }
+      }, LONG_PRESS_MS);
+    });
+
+    ['touchend', 'touchmove', 'touchcancel'].forEach(function (type) {
+      document.addEventListener(type, function () { clearTimeout(pressTimer); });
+    });
+
     function handleWordClick(word) {
+      if (longPressed) {
+        longPressed = false;
+        return;
+      }
       if (window.ReactNativeWebView) {
         window.ReactNativeWebView.postMessage(JSON.stringify({
           type: 'word_click',
@@ -341,5 +534,17 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#9b2c2c',
     textAlign: 'center'
+  },
+  retryButton: {
+    marginTop: 20,
+    paddingVertical: 12,
+    paddingHorizontal: 28,
+    borderRadius: 12,
+    backgroundColor: '#1e6f5c'
+  },
+  retryButtonText: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '600'
   }
 });
@@ -5,6 +5,7 @@ import { Mushaf } from '../types';
 export const AVAILABLE_MUSHAFS: Mushaf[] = [
     {
         id: 1,
+        version: 1,
         name: 'KFGQPC V2 (1421H)',
         code: 'qpc_v2',
         description: 'King Fahd Glorious Quran Printing Complex - Calligraphie Uthman Taha - Version standard',
@@ -27,6 +28,7 @@ export const AVAILABLE_MUSHAFS: Mushaf[] = [
     },
     {
         id: 2,
+        version: 1,
         name: 'KFGQPC V1 (1405H)',
         code: 'qpc_v1',
         description: 'King Fahd Complex - Version classique 1405H',
@@ -46,6 +48,7 @@ export const AVAILABLE_MUSHAFS: Mushaf[] = [
     },
     {
         id: 3,
+        version: 1,
         name: 'Indopak Nastaleeq 15 Lignes',
         code: 'indopak_15',
         description: 'Style calligraphique du sous-continent indien',
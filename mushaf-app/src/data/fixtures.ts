@@ -0,0 +1,88 @@
+// src/data/fixtures.ts
+// Page 1 (Al-Fatiha) in the quran.com API shape, for FixturePageDataSource
+
+import { APIPageResponse, APISurah, APIVerse } from '../services/QuranAPI';
+import { PageFixtures } from '../services/FixturePageDataSource';
+
+const ARABIC_DIGITS = ['٠', '١', '٢', '٣', '٤', '٥', '٦', '٧', '٨', '٩'];
+
+let nextWordId = 1;
+
+// [text, line] for each word, the end-of-verse marker is appended automatically
+function fatihaVerse(verseNumber: number, words: [string, number][]): APIVerse {
+    const endLine = words[words.length - 1][1];
+    const endMarker = verseNumber.toString().split('').map(d => ARABIC_DIGITS[Number(d)]).join('');
+
+    const allWords: [string, number, 'word' | 'end'][] = [
+        ...words.map(([text, line]): [string, number, 'word'] => [text, line, 'word']),
+        [endMarker, endLine, 'end']
+    ];
+
+    return {
+        id: verseNumber,
+        verse_number: verseNumber,
+        verse_key: `1:${verseNumber}`,
+        hizb_number: 1,
+        rub_el_hizb_number: 1,
+        ruku_number: 1,
+        manzil_number: 1,
+        sajdah_number: null,
+        page_number: 1,
+        juz_number: 1,
+        words: allWords.map(([text, line, charType], idx) => ({
+            id: nextWordId++,
+            position: idx + 1,
+            audio_url: null,
+            char_type_name: charType,
+            code_v1: text,
+            page_number: 1,
+            line_number: line,
+            text,
+            text_uthmani: text
+        }))
+    };
+}
+
+const FATIHA_PAGE: APIPageResponse = {
+    verses: [
+        fatihaVerse(1, [['بِسْمِ', 2], ['ٱللَّهِ', 2], ['ٱلرَّحْمَٰنِ', 2], ['ٱلرَّحِيمِ', 2]]),
+        fatihaVerse(2, [['ٱلْحَمْدُ', 3], ['لِلَّهِ', 3], ['رَبِّ', 3], ['ٱلْعَٰلَمِينَ', 3]]),
+        fatihaVerse(3, [['ٱلرَّحْمَٰنِ', 3], ['ٱلرَّحِيمِ', 4]]),
+        fatihaVerse(4, [['مَٰلِكِ', 4], ['يَوْمِ', 4], ['ٱلدِّينِ', 4]]),
+        fatihaVerse(5, [['إِيَّاكَ', 5], ['نَعْبُدُ', 5], ['وَإِيَّاكَ', 5], ['نَسْتَعِينُ', 5]]),
+        fatihaVerse(6, [['ٱهْدِنَا', 5], ['ٱلصِّرَٰطَ', 6], ['ٱلْمُسْتَقِيمَ', 6]]),
+        fatihaVerse(7, [
+            ['صِرَٰطَ', 6], ['ٱلَّذِينَ', 6], ['أَنْعَمْتَ', 7], ['عَلَيْهِمْ', 7], ['غَيْرِ', 7],
+            ['ٱلْمَغْضُوبِ', 7], ['عَلَيْهِمْ', 8], ['وَلَا', 8], ['ٱلضَّآلِّينَ', 8]
+        ])
+    ],
+    pagination: {
+        per_page: 7,
+        current_page: 1,
+        next_page: null,
+        total_pages: 1,
+        total_records: 7
+    }
+};
+
+const FATIHA_SURAH: APISurah = {
+    id: 1,
+    revelation_place: 'makkah',
+    revelation_order: 5,
+    bismillah_pre: false,
+    name_simple: 'Al-Fatihah',
+    name_complex: 'Al-Fātiĥah',
+    name_arabic: 'الفاتحة',
+    verses_count: 7,
+    pages: [1, 1],
+    translated_name: {
+        language_name: 'english',
+        name: 'The Opener'
+    }
+};
+
+export const FATIHA_FIXTURES: PageFixtures = {
+    pages: { 1: FATIHA_PAGE },
+    surahs: [FATIHA_SURAH],
+    totalPages: 1
+};
@@ -1,9 +1,25 @@
 // src/database/schema.ts
 import * as SQLite from 'expo-sqlite';
 import * as FileSystem from 'expo-file-system';
+import { KhatmPlan, KhatmPortion, Mushaf, PageLine, ReadingSession, Surah, Word } from '../types';
 
 export const DB_NAME = 'mushaf_library.db';
 
+let mainDatabase: Promise<SQLite.SQLiteDatabase> | null = null;
+
+// Ajoute une colonne aux bases créées par une version précédente
+async function addColumnIfMissing(
+    db: SQLite.SQLiteDatabase,
+    table: string,
+    column: string,
+    definition: string
+): Promise<void> {
+    const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+    if (!columns.some(c => c.name === column)) {
+        await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+    }
+}
+
 export async function initMainDatabase(): Promise<SQLite.SQLiteDatabase> {
     const db = await SQLite.openDatabaseAsync(DB_NAME);
 
@@ -20,6 +36,9 @@ export async function initMainDatabase(): Promise<SQLite.SQLiteDatabase> {
     );
   `);
 
+    // Version du paquet installé, comparée à celle du catalogue
+    await addColumnIfMissing(db, 'installed_mushafs', 'version', 'INTEGER NOT NULL DEFAULT 1');
+
     // Table des signets
     await db.execAsync(`
     CREATE TABLE IF NOT EXISTS bookmarks (
@@ -27,11 +46,15 @@ export async function initMainDatabase(): Promise<SQLite.SQLiteDatabase> {
       mushaf_id INTEGER NOT NULL,
       page_number INTEGER NOT NULL,
       line_number INTEGER,
+      verse_key TEXT,
       note TEXT,
       created_at TEXT NOT NULL
     );
   `);
 
+    // verse_key permet de retrouver un signet entre Mushafs de 604 et 610 pages
+    await addColumnIfMissing(db, 'bookmarks', 'verse_key', 'TEXT');
+
     await db.execAsync(`
     CREATE INDEX IF NOT EXISTS idx_bookmarks_mushaf 
       ON bookmarks(mushaf_id, page_number);
@@ -61,9 +84,53 @@ export async function initMainDatabase(): Promise<SQLite.SQLiteDatabase> {
     );
   `);
 
+    // Plans de khatm (lecture complète) et leurs portions journalières
+    await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS khatm_plans (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      mushaf_id INTEGER NOT NULL,
+      total_pages INTEGER NOT NULL,
+      start_date TEXT NOT NULL,
+      end_date TEXT NOT NULL,
+      alignment TEXT NOT NULL DEFAULT 'page',
+      status TEXT NOT NULL DEFAULT 'active',
+      created_at TEXT NOT NULL
+    );
+  `);
+
+    // Les portions à partir d'aujourd'hui sont recalculées quand des jours sont manqués
+    await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS khatm_portions (
+      plan_id INTEGER NOT NULL,
+      day_date TEXT NOT NULL,
+      start_page INTEGER NOT NULL,
+      end_page INTEGER NOT NULL,
+      PRIMARY KEY (plan_id, day_date)
+    );
+  `);
+
+    // Cache des réponses de l'API (pages, sourates...)
+    await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS api_cache (
+      cache_key TEXT PRIMARY KEY,
+      cache_version INTEGER NOT NULL,
+      payload TEXT NOT NULL,
+      fetched_at INTEGER NOT NULL
+    );
+  `);
+
     return db;
 }
 
+// Connexion partagée à la base principale, initialisée une seule fois
+export function getMainDatabase(): Promise<SQLite.SQLiteDatabase> {
+    if (!mainDatabase) {
+        mainDatabase = initMainDatabase();
+        mainDatabase.catch(() => { mainDatabase = null; });
+    }
+    return mainDatabase;
+}
+
 // Chaque Mushaf a sa propre DB avec les métadonnées de mise en page
 export async function getMushafDatabase(mushafPath: string): Promise<SQLite.SQLiteDatabase> {
     const dbPath = `${mushafPath}mushaf_layout.db`;
@@ -77,17 +144,96 @@ export async function getMushafDatabase(mushafPath: string): Promise<SQLite.SQLi
     return await SQLite.openDatabaseAsync(dbPath);
 }
 
+// Get the layout lines of a page from a Mushaf DB
+export async function getPageLines(db: SQLite.SQLiteDatabase, pageNumber: number): Promise<PageLine[]> {
+    const rows = await db.getAllAsync<Omit<PageLine, 'is_centered' | 'words'> & { is_centered: number }>(
+        'SELECT * FROM page_lines WHERE page_number = ? ORDER BY line_number',
+        [pageNumber]
+    );
+    return rows.map(row => ({ ...row, is_centered: row.is_centered === 1 }));
+}
+
+// Get the words of a page from a Mushaf DB, in reading order
+export async function getPageWords(db: SQLite.SQLiteDatabase, pageNumber: number): Promise<Word[]> {
+    return await db.getAllAsync<Word>(
+        'SELECT * FROM words WHERE page_number = ? ORDER BY id',
+        [pageNumber]
+    );
+}
+
+// Get the words of a verse from a Mushaf DB
+export async function getVerseWords(db: SQLite.SQLiteDatabase, verseKey: string): Promise<Word[]> {
+    return await db.getAllAsync<Word>(
+        'SELECT * FROM words WHERE verse_key = ? ORDER BY id',
+        [verseKey]
+    );
+}
+
+// Get the words of several verses from a Mushaf DB, in reading order
+export async function getVersesWords(db: SQLite.SQLiteDatabase, verseKeys: string[]): Promise<Word[]> {
+    return await db.getAllAsync<Word>(
+        `SELECT * FROM words WHERE verse_key IN (${verseKeys.map(() => '?').join(', ')}) ORDER BY id`,
+        verseKeys
+    );
+}
+
+// Get the surahs of a Mushaf DB with their page range
+export async function getLayoutSurahs(db: SQLite.SQLiteDatabase): Promise<Surah[]> {
+    return await db.getAllAsync<Surah>('SELECT * FROM surahs ORDER BY id');
+}
+
+export interface InstalledMushafRow {
+    id: number;
+    name: string;
+    code: string;
+    pages_count: number;
+    lines_per_page: number;
+    local_path: string;
+    installed_at: string;
+    version: number;
+}
+
 // Get all installed mushafs from database
 export async function getInstalledMushafs(db: SQLite.SQLiteDatabase) {
-    return await db.getAllAsync<{
-        id: number;
-        name: string;
-        code: string;
-        pages_count: number;
-        lines_per_page: number;
-        local_path: string;
-        installed_at: string;
-    }>('SELECT * FROM installed_mushafs');
+    return await db.getAllAsync<InstalledMushafRow>('SELECT * FROM installed_mushafs');
+}
+
+// Get an installed mushaf, null when not installed
+export async function getInstalledMushaf(db: SQLite.SQLiteDatabase, mushafId: number) {
+    return await db.getFirstAsync<InstalledMushafRow>('SELECT * FROM installed_mushafs WHERE id = ?', [mushafId]);
+}
+
+// Record an installed mushaf, replacing the previous install of the same id
+export async function upsertInstalledMushaf(
+    db: SQLite.SQLiteDatabase,
+    mushaf: Pick<Mushaf, 'id' | 'name' | 'code' | 'pages_count' | 'lines_per_page' | 'version'>,
+    localPath: string
+) {
+    return await db.runAsync(
+        `INSERT OR REPLACE INTO installed_mushafs (id, name, code, pages_count, lines_per_page, local_path, installed_at, version)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [mushaf.id, mushaf.name, mushaf.code, mushaf.pages_count, mushaf.lines_per_page, localPath, new Date().toISOString(), mushaf.version]
+    );
+}
+
+// Remove an installed mushaf, bookmarks and history are kept
+export async function deleteInstalledMushaf(db: SQLite.SQLiteDatabase, mushafId: number) {
+    return await db.runAsync('DELETE FROM installed_mushafs WHERE id = ?', [mushafId]);
+}
+
+// Point an installed mushaf to its current directory
+export async function setInstalledMushafPath(db: SQLite.SQLiteDatabase, mushafId: number, localPath: string) {
+    return await db.runAsync('UPDATE installed_mushafs SET local_path = ? WHERE id = ?', [localPath, mushafId]);
+}
+
+export interface BookmarkRow {
+    id: number;
+    mushaf_id: number;
+    page_number: number;
+    line_number: number | null;
+    verse_key: string | null;
+    note: string | null;
+    created_at: string;
 }
 
 // Add a bookmark
@@ -96,25 +242,48 @@ export async function addBookmark(
     mushafId: number,
     pageNumber: number,
     lineNumber?: number,
-    note?: string
+    note?: string,
+    verseKey?: string
 ) {
     return await db.runAsync(
-        `INSERT INTO bookmarks (mushaf_id, page_number, line_number, note, created_at)
-     VALUES (?, ?, ?, ?, ?)`,
-        [mushafId, pageNumber, lineNumber ?? null, note ?? null, new Date().toISOString()]
+        `INSERT INTO bookmarks (mushaf_id, page_number, line_number, verse_key, note, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+        [mushafId, pageNumber, lineNumber ?? null, verseKey ?? null, note ?? null, new Date().toISOString()]
+    );
+}
+
+// Update the note of a bookmark
+export async function updateBookmarkNote(db: SQLite.SQLiteDatabase, bookmarkId: number, note: string | null) {
+    return await db.runAsync('UPDATE bookmarks SET note = ? WHERE id = ?', [note, bookmarkId]);
+}
+
+// Delete a bookmark
+export async function deleteBookmark(db: SQLite.SQLiteDatabase, bookmarkId: number) {
+    return await db.runAsync('DELETE FROM bookmarks WHERE id = ?', [bookmarkId]);
+}
+
+// Get the whole-page bookmark of a page, if any
+export async function getPageBookmark(db: SQLite.SQLiteDatabase, mushafId: number, pageNumber: number) {
+    return await db.getFirstAsync<{ id: number }>(
+        'SELECT id FROM bookmarks WHERE mushaf_id = ? AND page_number = ? AND line_number IS NULL',
+        [mushafId, pageNumber]
     );
 }
 
 // Get bookmarks for a mushaf
 export async function getBookmarks(db: SQLite.SQLiteDatabase, mushafId: number) {
-    return await db.getAllAsync<{
-        id: number;
-        mushaf_id: number;
-        page_number: number;
-        line_number: number | null;
-        note: string | null;
-        created_at: string;
-    }>('SELECT * FROM bookmarks WHERE mushaf_id = ? ORDER BY created_at DESC', [mushafId]);
+    return await db.getAllAsync<BookmarkRow>(
+        'SELECT * FROM bookmarks WHERE mushaf_id = ? ORDER BY created_at DESC',
+        [mushafId]
+    );
+}
+
+// Get bookmarks of the other mushafs, to be mapped by verse_key
+export async function getOtherMushafBookmarks(db: SQLite.SQLiteDatabase, mushafId: number) {
+    return await db.getAllAsync<BookmarkRow>(
+        'SELECT * FROM bookmarks WHERE mushaf_id != ? AND verse_key IS NOT NULL ORDER BY created_at DESC',
+        [mushafId]
+    );
 }
 
 // Record reading session
@@ -140,6 +309,88 @@ export async function getLastReadPage(db: SQLite.SQLiteDatabase, mushafId: numbe
     return result?.page_number ?? null;
 }
 
+// Get the whole reading history, oldest first
+export async function getAllReadingSessions(db: SQLite.SQLiteDatabase): Promise<ReadingSession[]> {
+    return await db.getAllAsync<ReadingSession>('SELECT * FROM reading_history ORDER BY timestamp');
+}
+
+// Get the most recent reading sessions, all mushafs
+export async function getRecentSessions(db: SQLite.SQLiteDatabase, limit: number): Promise<ReadingSession[]> {
+    return await db.getAllAsync<ReadingSession>(
+        'SELECT * FROM reading_history ORDER BY timestamp DESC LIMIT ?',
+        [limit]
+    );
+}
+
+// Get the last read page of each mushaf, most recent first
+export async function getLastReadPages(db: SQLite.SQLiteDatabase) {
+    // SQLite returns the bare columns of the row holding MAX(timestamp)
+    return await db.getAllAsync<{ mushaf_id: number; page_number: number; timestamp: string }>(
+        `SELECT mushaf_id, page_number, MAX(timestamp) AS timestamp
+     FROM reading_history GROUP BY mushaf_id ORDER BY timestamp DESC`
+    );
+}
+
+// Get the distinct pages of a mushaf read since a date
+export async function getPagesReadSince(db: SQLite.SQLiteDatabase, mushafId: number, since: string): Promise<number[]> {
+    const rows = await db.getAllAsync<{ page_number: number }>(
+        'SELECT DISTINCT page_number FROM reading_history WHERE mushaf_id = ? AND timestamp >= ?',
+        [mushafId, since]
+    );
+    return rows.map(row => row.page_number);
+}
+
+// Create a khatm plan, returns its id
+export async function createKhatmPlan(
+    db: SQLite.SQLiteDatabase,
+    plan: Pick<KhatmPlan, 'mushaf_id' | 'total_pages' | 'start_date' | 'end_date' | 'alignment'>
+): Promise<number> {
+    const result = await db.runAsync(
+        `INSERT INTO khatm_plans (mushaf_id, total_pages, start_date, end_date, alignment, status, created_at)
+     VALUES (?, ?, ?, ?, ?, 'active', ?)`,
+        [plan.mushaf_id, plan.total_pages, plan.start_date, plan.end_date, plan.alignment, new Date().toISOString()]
+    );
+    return result.lastInsertRowId;
+}
+
+// Get the active khatm plan, if any
+export async function getActiveKhatmPlan(db: SQLite.SQLiteDatabase): Promise<KhatmPlan | null> {
+    return await db.getFirstAsync<KhatmPlan>(
+        "SELECT * FROM khatm_plans WHERE status = 'active' ORDER BY created_at DESC LIMIT 1"
+    );
+}
+
+// Mark a khatm plan completed or abandoned
+export async function setKhatmPlanStatus(db: SQLite.SQLiteDatabase, planId: number, status: KhatmPlan['status']) {
+    return await db.runAsync('UPDATE khatm_plans SET status = ? WHERE id = ?', [status, planId]);
+}
+
+// Get the daily portions of a khatm plan
+export async function getKhatmPortions(db: SQLite.SQLiteDatabase, planId: number): Promise<KhatmPortion[]> {
+    return await db.getAllAsync<KhatmPortion>(
+        'SELECT * FROM khatm_portions WHERE plan_id = ? ORDER BY day_date',
+        [planId]
+    );
+}
+
+// Replace the portions of a plan from a day onwards, past days are kept
+export async function replaceKhatmPortions(
+    db: SQLite.SQLiteDatabase,
+    planId: number,
+    fromDate: string,
+    portions: Omit<KhatmPortion, 'plan_id'>[]
+) {
+    await db.withTransactionAsync(async () => {
+        await db.runAsync('DELETE FROM khatm_portions WHERE plan_id = ? AND day_date >= ?', [planId, fromDate]);
+        for (const portion of portions) {
+            await db.runAsync(
+                'INSERT INTO khatm_portions (plan_id, day_date, start_page, end_page) VALUES (?, ?, ?, ?)',
+                [planId, portion.day_date, portion.start_page, portion.end_page]
+            );
+        }
+    });
+}
+
 // Set user preference
 export async function setPreference(db: SQLite.SQLiteDatabase, key: string, value: string) {
     return await db.runAsync(
@@ -156,3 +407,46 @@ export async function getPreference(db: SQLite.SQLiteDatabase, key: string): Pro
     );
     return result?.value ?? null;
 }
+
+// Get a cached API payload
+export async function getCacheEntry(db: SQLite.SQLiteDatabase, cacheKey: string) {
+    return await db.getFirstAsync<{
+        cache_key: string;
+        cache_version: number;
+        payload: string;
+        fetched_at: number;
+    }>('SELECT * FROM api_cache WHERE cache_key = ?', [cacheKey]);
+}
+
+// Store an API payload in the cache
+export async function setCacheEntry(
+    db: SQLite.SQLiteDatabase,
+    cacheKey: string,
+    cacheVersion: number,
+    payload: string
+) {
+    return await db.runAsync(
+        `INSERT OR REPLACE INTO api_cache (cache_key, cache_version, payload, fetched_at)
+     VALUES (?, ?, ?, ?)`,
+        [cacheKey, cacheVersion, payload, Date.now()]
+    );
+}
+
+// Delete a cached API payload
+export async function deleteCacheEntry(db: SQLite.SQLiteDatabase, cacheKey: string) {
+    return await db.runAsync('DELETE FROM api_cache WHERE cache_key = ?', [cacheKey]);
+}
+
+// Number and size in bytes of the cached API payloads whose key starts with a prefix
+export async function getCacheUsage(db: SQLite.SQLiteDatabase, keyPrefix: string) {
+    return await db.getFirstAsync<{ entries: number; bytes: number }>(
+        `SELECT COUNT(*) AS entries, COALESCE(SUM(LENGTH(CAST(payload AS BLOB))), 0) AS bytes
+     FROM api_cache WHERE cache_key LIKE ?`,
+        [`${keyPrefix}%`]
+    ) ?? { entries: 0, bytes: 0 };
+}
+
+// Delete cached API payloads whose key starts with a prefix
+export async function clearCacheEntries(db: SQLite.SQLiteDatabase, keyPrefix: string) {
+    return await db.runAsync('DELETE FROM api_cache WHERE cache_key LIKE ?', [`${keyPrefix}%`]);
+}
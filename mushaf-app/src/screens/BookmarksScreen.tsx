@@ -0,0 +1,416 @@
+// src/screens/BookmarksScreen.tsx
+// Bookmarks of the current Mushaf grouped by surah, then those of other Mushafs mapped by verse (read only)
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    SectionList,
+    TouchableOpacity,
+    Alert,
+    Modal,
+    TextInput,
+    ActivityIndicator
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useMushafStore } from '../store/mushafStore';
+import { PageDataSource, resolvePageDataSource } from '../services/PageDataSource';
+import { compareVerseKeys } from '../services/QuranDivisions';
+import {
+    getMainDatabase,
+    getBookmarks,
+    getOtherMushafBookmarks,
+    updateBookmarkNote,
+    deleteBookmark,
+    BookmarkRow
+} from '../database/schema';
+
+interface BookmarksScreenProps {
+    navigation: any;
+}
+
+interface BookmarkItem extends BookmarkRow {
+    page: number | null; // Page in the current Mushaf, located on tap for another Mushaf's verse
+    fromOtherMushaf: boolean;
+}
+
+interface BookmarkSection {
+    key: string;
+    title: string;
+    data: BookmarkItem[];
+}
+
+function sortByVerse(items: BookmarkItem[]): BookmarkItem[] {
+    return items.sort((a, b) =>
+        a.verse_key && b.verse_key ? compareVerseKeys(a.verse_key, b.verse_key) : (a.page ?? 0) - (b.page ?? 0)
+    );
+}
+
+/**
+ * Page of a bookmark in the current Mushaf. Null for a verse bookmarked in
+ * another Mushaf (604 vs 610 pages): its page takes a lookup, done on tap.
+ */
+function bookmarkPage(bookmark: BookmarkRow, dataSource: PageDataSource): number | null {
+    if (bookmark.mushaf_id === dataSource.mushafId || !bookmark.verse_key) {
+        return Math.min(bookmark.page_number, dataSource.totalPages);
+    }
+    return null;
+}
+
+/**
+ * Locates a verse bookmarked in another Mushaf, by its verse key
+ */
+async function locateBookmarkPage(bookmark: BookmarkRow, dataSource: PageDataSource): Promise<number> {
+    const verse = bookmark.verse_key ? await dataSource.getVerse(bookmark.verse_key).catch(() => null) : null;
+    return verse?.page_number ?? Math.min(bookmark.page_number, dataSource.totalPages);
+}
+
+export function BookmarksScreen({ navigation }: BookmarksScreenProps) {
+    const currentMushafId = useMushafStore(state => state.currentMushafId);
+
+    const [sections, setSections] = useState<BookmarkSection[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [editing, setEditing] = useState<BookmarkItem | null>(null);
+    const [noteValue, setNoteValue] = useState('');
+
+    const loadBookmarks = useCallback(async () => {
+        setLoading(true);
+        try {
+            const dataSource = await resolvePageDataSource(currentMushafId);
+            const db = await getMainDatabase();
+            const [own, others] = await Promise.all([
+                getBookmarks(db, dataSource.mushafId),
+                getOtherMushafBookmarks(db, dataSource.mushafId)
+            ]);
+            const surahs = await dataSource.getSurahs().catch(() => []);
+
+            const items: BookmarkItem[] = [...own, ...others].map(bookmark => ({
+                ...bookmark,
+                page: bookmarkPage(bookmark, dataSource),
+                fromOtherMushaf: bookmark.mushaf_id !== dataSource.mushafId
+            }));
+
+            // Group by surah (from the verse key), in mushaf order
+            const bySurah = new Map<number, BookmarkItem[]>();
+            for (const item of items.filter(item => !item.fromOtherMushaf)) {
+                const surahNumber = item.verse_key ? parseInt(item.verse_key.split(':')[0], 10) : 0;
+                if (!bySurah.has(surahNumber)) {
+                    bySurah.set(surahNumber, []);
+                }
+                bySurah.get(surahNumber)!.push(item);
+            }
+
+            const surahSections: BookmarkSection[] = Array.from(bySurah.keys()).sort((a, b) => a - b).map(surahNumber => ({
+                key: `surah-${surahNumber}`,
+                title: surahNumber === 0
+                    ? 'أخرى'
+                    : `سورة ${surahs.find(s => s.id === surahNumber)?.name_arabic ?? surahNumber}`,
+                data: sortByVerse(bySurah.get(surahNumber)!)
+            }));
+
+            // Kept apart: they belong to another Mushaf and are edited from it
+            const otherMushafItems = items.filter(item => item.fromOtherMushaf);
+            setSections(otherMushafItems.length > 0
+                ? [...surahSections, { key: 'other-mushafs', title: 'من مصاحف أخرى', data: sortByVerse(otherMushafItems) }]
+                : surahSections);
+        } catch (error) {
+            Alert.alert('خطأ', (error as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, [currentMushafId]);
+
+    useEffect(() => {
+        loadBookmarks();
+    }, [loadBookmarks]);
+
+    const handleDelete = (bookmark: BookmarkItem) => {
+        Alert.alert(
+            'حذف العلامة',
+            'هل تريد حذف هذه العلامة؟',
+            [
+                { text: 'إلغاء', style: 'cancel' },
+                {
+                    text: 'حذف',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            const db = await getMainDatabase();
+                            await deleteBookmark(db, bookmark.id);
+                            await loadBookmarks();
+                        } catch (error) {
+                            Alert.alert('خطأ', (error as Error).message);
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const handleEdit = (bookmark: BookmarkItem) => {
+        setEditing(bookmark);
+        setNoteValue(bookmark.note ?? '');
+    };
+
+    const handleSaveNote = async () => {
+        if (!editing) {
+            return;
+        }
+        try {
+            const db = await getMainDatabase();
+            await updateBookmarkNote(db, editing.id, noteValue.trim() || null);
+            setEditing(null);
+            await loadBookmarks();
+        } catch (error) {
+            Alert.alert('خطأ', (error as Error).message);
+        }
+    };
+
+    const handleOpen = async (bookmark: BookmarkItem) => {
+        if (bookmark.page !== null) {
+            navigation.navigate('Reader', { page: bookmark.page });
+            return;
+        }
+        try {
+            const dataSource = await resolvePageDataSource(currentMushafId);
+            navigation.navigate('Reader', { page: await locateBookmarkPage(bookmark, dataSource) });
+        } catch (error) {
+            Alert.alert('خطأ', (error as Error).message);
+        }
+    };
+
+    const renderBookmark = ({ item }: { item: BookmarkItem }) => (
+        <TouchableOpacity
+            style={styles.row}
+            onPress={() => handleOpen(item)}
+        >
+            <View style={styles.rowContent}>
+                <Text style={styles.rowTitle}>
+                    {item.verse_key && (item.line_number !== null || item.page === null)
+                        ? `الآية ${item.verse_key}`
+                        : `صفحة ${item.page}`}
+                    {item.line_number !== null ? ` · السطر ${item.line_number}` : ''}
+                </Text>
+                {item.note ? <Text style={styles.note}>{item.note}</Text> : null}
+                <Text style={styles.meta}>
+                    {item.page !== null ? `صفحة ${item.page} · ` : ''}
+                    {new Date(item.created_at).toLocaleDateString('ar')}
+                </Text>
+            </View>
+            {!item.fromOtherMushaf && (
+                <>
+                    <TouchableOpacity style={styles.iconButton} onPress={() => handleEdit(item)}>
+                        <Text style={styles.iconText}>✏️</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(item)}>
+                        <Text style={styles.iconText}>🗑️</Text>
+                    </TouchableOpacity>
+                </>
+            )}
+        </TouchableOpacity>
+    );
+
+    if (loading) {
+        return (
+            <View style={styles.centered}>
+                <ActivityIndicator size="large" color="#1e6f5c" />
+            </View>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container} edges={['bottom']}>
+            {sections.length === 0 ? (
+                <View style={styles.centered}>
+                    <Text style={styles.emptyIcon}>🔖</Text>
+                    <Text style={styles.emptyText}>لا توجد علامات بعد</Text>
+                    <Text style={styles.emptyHint}>اضغط مطولاً على كلمة لحفظ آيتها</Text>
+                </View>
+            ) : (
+                <SectionList
+                    sections={sections}
+                    renderItem={renderBookmark}
+                    renderSectionHeader={({ section }) => (
+                        <View style={styles.sectionHeader}>
+                            <Text style={styles.sectionTitle}>{section.title}</Text>
+                        </View>
+                    )}
+                    keyExtractor={(item) => item.id.toString()}
+                    showsVerticalScrollIndicator={false}
+                />
+            )}
+
+            {/* Edit note modal */}
+            <Modal
+                visible={editing !== null}
+                transparent
+                animationType="fade"
+                onRequestClose={() => setEditing(null)}
+            >
+                <TouchableOpacity
+                    style={styles.modalOverlay}
+                    activeOpacity={1}
+                    onPress={() => setEditing(null)}
+                >
+                    <View style={styles.modalContent}>
+                        <Text style={styles.modalTitle}>ملاحظة</Text>
+                        <TextInput
+                            style={styles.modalInput}
+                            placeholder="أضف ملاحظة..."
+                            value={noteValue}
+                            onChangeText={setNoteValue}
+                            multiline
+                            autoFocus
+                            textAlign="right"
+                        />
+                        <View style={styles.modalActions}>
+                            <TouchableOpacity
+                                style={styles.modalCancelBtn}
+                                onPress={() => setEditing(null)}
+                            >
+                                <Text style={styles.modalCancelText}>إلغاء</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={styles.modalConfirmBtn}
+                                onPress={handleSaveNote}
+                            >
+                                <Text style={styles.modalConfirmText}>حفظ</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </TouchableOpacity>
+            </Modal>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#fefcf3'
+    },
+    sectionHeader: {
+        paddingHorizontal: 16,
+        paddingVertical: 8,
+        backgroundColor: '#f0ebe0'
+    },
+    sectionTitle: {
+        fontSize: 16,
+        fontWeight: 'bold',
+        color: '#1e6f5c',
+        textAlign: 'right'
+    },
+    row: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderColor: '#eee8da'
+    },
+    rowContent: {
+        flex: 1,
+        alignItems: 'flex-end'
+    },
+    rowTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#1a1a1a'
+    },
+    note: {
+        fontSize: 14,
+        color: '#444',
+        marginTop: 4,
+        textAlign: 'right'
+    },
+    meta: {
+        fontSize: 12,
+        color: '#8b8b8b',
+        marginTop: 4
+    },
+    iconButton: {
+        padding: 8
+    },
+    iconText: {
+        fontSize: 18
+    },
+    centered: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 24,
+        backgroundColor: '#fefcf3'
+    },
+    emptyIcon: {
+        fontSize: 48,
+        marginBottom: 12
+    },
+    emptyText: {
+        fontSize: 18,
+        fontWeight: '600',
+        color: '#1e6f5c'
+    },
+    emptyHint: {
+        fontSize: 14,
+        color: '#8b8b8b',
+        marginTop: 8
+    },
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'center',
+        alignItems: 'center'
+    },
+    modalContent: {
+        backgroundColor: '#fff',
+        borderRadius: 20,
+        padding: 24,
+        width: '80%',
+        maxWidth: 320
+    },
+    modalTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        textAlign: 'center',
+        marginBottom: 20,
+        color: '#1e6f5c'
+    },
+    modalInput: {
+        borderWidth: 2,
+        borderColor: '#e5e0d5',
+        borderRadius: 12,
+        padding: 12,
+        fontSize: 16,
+        minHeight: 80,
+        marginBottom: 20,
+        backgroundColor: '#fafafa'
+    },
+    modalActions: {
+        flexDirection: 'row',
+        gap: 12
+    },
+    modalCancelBtn: {
+        flex: 1,
+        padding: 14,
+        borderRadius: 12,
+        backgroundColor: '#f3f3f3',
+        alignItems: 'center'
+    },
+    modalCancelText: {
+        fontSize: 16,
+        color: '#666',
+        fontWeight: '600'
+    },
+    modalConfirmBtn: {
+        flex: 1,
+        padding: 14,
+        borderRadius: 12,
+        backgroundColor: '#1e6f5c',
+        alignItems: 'center'
+    },
+    modalConfirmText: {
+        fontSize: 16,
+        color: '#fff',
+        fontWeight: '600'
+    }
+});
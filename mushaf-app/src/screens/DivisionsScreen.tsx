@@ -0,0 +1,227 @@
+// src/screens/DivisionsScreen.tsx
+// Juz / hizb / rub' al-hizb navigator with start pages and opening verses
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    SectionList,
+    TouchableOpacity,
+    ActivityIndicator
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useMushafStore } from '../store/mushafStore';
+import { resolvePageDataSource } from '../services/PageDataSource';
+import {
+    getRubLabel,
+    DivisionStart,
+    TOTAL_JUZ
+} from '../services/QuranDivisions';
+
+interface DivisionsScreenProps {
+    navigation: any;
+}
+
+interface JuzSection {
+    juz: number;
+    data: DivisionStart[];
+}
+
+export function DivisionsScreen({ navigation }: DivisionsScreenProps) {
+    const currentMushafId = useMushafStore(state => state.currentMushafId);
+
+    const [starts, setStarts] = useState<DivisionStart[]>([]);
+    const [loadedJuz, setLoadedJuz] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadDivisions();
+    }, [currentMushafId]);
+
+    const loadDivisions = async () => {
+        setLoading(true);
+        setError(null);
+        setLoadedJuz(0);
+        try {
+            // Installed Mushafs locate the rub' starts in their own layout, offline
+            const dataSource = await resolvePageDataSource(currentMushafId);
+            setStarts(await dataSource.getDivisionStarts(setLoadedJuz));
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const sections = useMemo<JuzSection[]>(() => {
+        const byJuz = new Map<number, DivisionStart[]>();
+        for (const start of starts) {
+            if (!byJuz.has(start.juz)) {
+                byJuz.set(start.juz, []);
+            }
+            byJuz.get(start.juz)!.push(start);
+        }
+        return Array.from(byJuz, ([juz, data]) => ({ juz, data }));
+    }, [starts]);
+
+    const renderRub = ({ item }: { item: DivisionStart }) => (
+        <TouchableOpacity
+            style={styles.row}
+            onPress={() => navigation.navigate('Reader', { page: item.page_number })}
+        >
+            <View style={styles.rowContent}>
+                <Text style={styles.rubLabel}>{getRubLabel(item.rub)}</Text>
+                <Text style={styles.verseText} numberOfLines={1}>{item.text}</Text>
+                <Text style={styles.verseKey}>{item.verse_key}</Text>
+            </View>
+            <View style={styles.pageBadge}>
+                <Text style={styles.pageLabel}>صفحة</Text>
+                <Text style={styles.pageText}>{item.page_number}</Text>
+            </View>
+        </TouchableOpacity>
+    );
+
+    if (loading) {
+        return (
+            <View style={styles.centered}>
+                <ActivityIndicator size="large" color="#1e6f5c" />
+                <Text style={styles.loadingText}>جار التحميل... {loadedJuz}/{TOTAL_JUZ}</Text>
+            </View>
+        );
+    }
+
+    if (error) {
+        return (
+            <View style={styles.centered}>
+                <Text style={styles.errorText}>تعذر تحميل الأجزاء</Text>
+                <Text style={styles.errorDetail}>{error}</Text>
+                <TouchableOpacity style={styles.retryButton} onPress={loadDivisions}>
+                    <Text style={styles.retryButtonText}>إعادة المحاولة</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container} edges={['bottom']}>
+            <SectionList
+                sections={sections}
+                renderItem={renderRub}
+                renderSectionHeader={({ section }) => (
+                    <TouchableOpacity
+                        style={styles.sectionHeader}
+                        onPress={() => navigation.navigate('Reader', { page: section.data[0].page_number })}
+                    >
+                        <Text style={styles.sectionTitle}>الجزء {section.juz}</Text>
+                        <Text style={styles.sectionPage}>صفحة {section.data[0].page_number}</Text>
+                    </TouchableOpacity>
+                )}
+                keyExtractor={(item) => item.rub.toString()}
+                stickySectionHeadersEnabled
+                showsVerticalScrollIndicator={false}
+            />
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#fefcf3'
+    },
+    sectionHeader: {
+        flexDirection: 'row-reverse',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 16,
+        paddingVertical: 10,
+        backgroundColor: '#1e6f5c'
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#fff'
+    },
+    sectionPage: {
+        fontSize: 14,
+        color: 'rgba(255,255,255,0.8)'
+    },
+    row: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderColor: '#eee8da'
+    },
+    rowContent: {
+        flex: 1,
+        marginLeft: 12,
+        alignItems: 'flex-end'
+    },
+    rubLabel: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#8b6d3b'
+    },
+    verseText: {
+        fontSize: 18,
+        color: '#1a1a1a',
+        marginTop: 4,
+        writingDirection: 'rtl'
+    },
+    verseKey: {
+        fontSize: 12,
+        color: '#8b8b8b',
+        marginTop: 2
+    },
+    pageBadge: {
+        alignItems: 'center'
+    },
+    pageLabel: {
+        fontSize: 11,
+        color: '#8b8b8b'
+    },
+    pageText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#1e6f5c'
+    },
+    centered: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 24,
+        backgroundColor: '#fefcf3'
+    },
+    loadingText: {
+        marginTop: 16,
+        fontSize: 16,
+        color: '#1e6f5c'
+    },
+    errorText: {
+        fontSize: 18,
+        color: '#c53030',
+        fontWeight: '600',
+        textAlign: 'center',
+        marginBottom: 8
+    },
+    errorDetail: {
+        fontSize: 14,
+        color: '#9b2c2c',
+        textAlign: 'center'
+    },
+    retryButton: {
+        marginTop: 16,
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        borderRadius: 12,
+        backgroundColor: '#1e6f5c'
+    },
+    retryButtonText: {
+        fontSize: 16,
+        color: '#fff',
+        fontWeight: '600'
+    }
+});
@@ -0,0 +1,450 @@
+// src/screens/KhatmScreen.tsx
+// Khatm planner: create a plan (30 days, Ramadan or a custom end date) and follow its daily portions
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    TextInput,
+    Alert,
+    ActivityIndicator
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useMushafStore } from '../store/mushafStore';
+import { PageDataSource, resolvePageDataSource } from '../services/PageDataSource';
+import {
+    abandonKhatmPlan,
+    countDays,
+    getKhatmStatus,
+    getRamadanRange,
+    startKhatmPlan,
+    DailyPortion,
+    KhatmStatus
+} from '../services/KhatmPlanner';
+import { addDays, fromDateKey, toDateKey } from '../services/ReadingStats';
+import { rescheduleWirdReminders } from '../services/WirdReminders';
+import { KhatmPlan } from '../types';
+
+const UPCOMING_PORTIONS_SHOWN = 7;
+
+type PlanPreset = '30days' | 'ramadan' | 'custom';
+
+interface KhatmScreenProps {
+    navigation: any;
+}
+
+function formatDay(dateKey: string): string {
+    return fromDateKey(dateKey).toLocaleDateString('ar', { weekday: 'long', day: 'numeric', month: 'long' });
+}
+
+function formatPortion(portion: DailyPortion): string {
+    return portion.start_page === portion.end_page
+        ? `الصفحة ${portion.start_page}`
+        : `الصفحات ${portion.start_page}–${portion.end_page}`;
+}
+
+export function KhatmScreen({ navigation }: KhatmScreenProps) {
+    const currentMushafId = useMushafStore(state => state.currentMushafId);
+
+    const [status, setStatus] = useState<KhatmStatus | null>(null);
+    const [dataSource, setDataSource] = useState<PageDataSource | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [preset, setPreset] = useState<PlanPreset>('30days');
+    const [alignment, setAlignment] = useState<KhatmPlan['alignment']>('juz');
+    const [customEndDate, setCustomEndDate] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    // Reminder messages mention the plan's portions
+    const refreshReminders = () => {
+        rescheduleWirdReminders().catch(error => console.log('Error scheduling reminders:', error));
+    };
+
+    const loadStatus = useCallback(async () => {
+        try {
+            const [khatmStatus, source] = await Promise.all([
+                getKhatmStatus(),
+                resolvePageDataSource(currentMushafId)
+            ]);
+            setStatus(khatmStatus);
+            setDataSource(source);
+        } catch (error) {
+            Alert.alert('خطأ', (error as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, [currentMushafId]);
+
+    useEffect(() => {
+        return navigation.addListener('focus', loadStatus);
+    }, [navigation, loadStatus]);
+
+    const getPlanDates = (): { startDate: string; endDate: string } => {
+        const today = toDateKey(new Date());
+        switch (preset) {
+            case '30days':
+                return { startDate: today, endDate: toDateKey(addDays(new Date(), 29)) };
+            case 'ramadan': {
+                const ramadan = getRamadanRange();
+                if (!ramadan) {
+                    throw new Error('تعذر تحديد تاريخ رمضان على هذا الجهاز، اختر تاريخاً مخصصاً');
+                }
+                return ramadan;
+            }
+            case 'custom':
+                if (!/^\d{4}-\d{2}-\d{2}$/.test(customEndDate.trim()) || isNaN(fromDateKey(customEndDate.trim()).getTime())) {
+                    throw new Error('أدخل تاريخ النهاية بالشكل 2025-03-30');
+                }
+                return { startDate: today, endDate: customEndDate.trim() };
+        }
+    };
+
+    const handleStartPlan = async () => {
+        if (!dataSource) {
+            return;
+        }
+        setSaving(true);
+        try {
+            const { startDate, endDate } = getPlanDates();
+            await startKhatmPlan(dataSource.mushafId, dataSource.totalPages, startDate, endDate, alignment);
+            refreshReminders();
+            await loadStatus();
+        } catch (error) {
+            Alert.alert('خطأ', (error as Error).message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleAbandonPlan = (planId: number) => {
+        Alert.alert(
+            'إلغاء الختمة',
+            'هل تريد إلغاء خطة الختمة الحالية؟',
+            [
+                { text: 'لا', style: 'cancel' },
+                {
+                    text: 'إلغاء الختمة',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await abandonKhatmPlan(planId);
+                            refreshReminders();
+                            await loadStatus();
+                        } catch (error) {
+                            Alert.alert('خطأ', (error as Error).message);
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const handleReadPortion = (khatmStatus: KhatmStatus, portion: DailyPortion) => {
+        // Resume inside today's portion if it was started
+        const page = khatmStatus.nextPage >= portion.start_page && khatmStatus.nextPage <= portion.end_page
+            ? khatmStatus.nextPage
+            : portion.start_page;
+        navigation.navigate('Reader', { mushafId: khatmStatus.plan.mushaf_id, page });
+    };
+
+    if (loading) {
+        return (
+            <View style={styles.centered}>
+                <ActivityIndicator size="large" color="#1e6f5c" />
+            </View>
+        );
+    }
+
+    if (status && status.state !== 'completed') {
+        const { plan, todayPortion } = status;
+        const progress = status.pagesRead / plan.total_pages;
+        const todayDone = todayPortion !== null && status.nextPage > todayPortion.end_page;
+        const daysLeft = countDays(toDateKey(new Date()), plan.end_date);
+
+        return (
+            <SafeAreaView style={styles.container} edges={['bottom']}>
+                <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+                    <View style={styles.card}>
+                        <Text style={styles.cardTitle}>تقدم الختمة</Text>
+                        <View style={styles.progressTrack}>
+                            <View style={[styles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+                        </View>
+                        <Text style={styles.progressText}>
+                            {status.pagesRead} / {plan.total_pages} صفحة · {Math.round(progress * 100)}%
+                        </Text>
+                        <Text style={styles.meta}>
+                            حتى {formatDay(plan.end_date)}
+                            {status.state === 'overdue' ? ' · انتهت المدة' : daysLeft > 0 ? ` · بقي ${daysLeft} يوماً` : ''}
+                        </Text>
+                    </View>
+
+                    {status.state === 'upcoming' ? (
+                        <View style={styles.card}>
+                            <Text style={styles.cardTitle}>تبدأ الختمة {formatDay(plan.start_date)}</Text>
+                        </View>
+                    ) : todayPortion ? (
+                        <View style={[styles.card, todayDone && styles.cardDone]}>
+                            <Text style={styles.cardTitle}>{todayDone ? '✅ ' : ''}ورد اليوم</Text>
+                            <Text style={styles.portionText}>{formatPortion(todayPortion)}</Text>
+                            <TouchableOpacity
+                                style={styles.primaryButton}
+                                onPress={() => handleReadPortion(status, todayPortion)}
+                            >
+                                <Text style={styles.primaryButtonText}>{todayDone ? 'متابعة القراءة' : 'ابدأ القراءة'}</Text>
+                            </TouchableOpacity>
+                        </View>
+                    ) : null}
+
+                    {status.upcomingPortions.length > 0 && (
+                        <View style={styles.card}>
+                            <Text style={styles.cardTitle}>الأيام القادمة</Text>
+                            {status.upcomingPortions.slice(0, UPCOMING_PORTIONS_SHOWN).map(portion => (
+                                <View key={portion.day_date} style={styles.portionRow}>
+                                    <Text style={styles.portionDay}>{formatDay(portion.day_date)}</Text>
+                                    <Text style={styles.portionPages}>{formatPortion(portion)}</Text>
+                                </View>
+                            ))}
+                        </View>
+                    )}
+
+                    <TouchableOpacity style={styles.secondaryButton} onPress={() => navigation.navigate('Reminders')}>
+                        <Text style={styles.secondaryButtonText}>⏰ تذكير الورد اليومي</Text>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity style={styles.dangerButton} onPress={() => handleAbandonPlan(plan.id)}>
+                        <Text style={styles.dangerButtonText}>إلغاء الختمة</Text>
+                    </TouchableOpacity>
+                </ScrollView>
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container} edges={['bottom']}>
+            <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                {status?.state === 'completed' && (
+                    <View style={[styles.card, styles.cardDone]}>
+                        <Text style={styles.cardTitle}>🎉 تمت الختمة، تقبل الله منك</Text>
+                    </View>
+                )}
+
+                <View style={styles.card}>
+                    <Text style={styles.cardTitle}>ختمة جديدة</Text>
+                    <Text style={styles.meta}>{dataSource?.totalPages ?? 604} صفحة في المصحف الحالي</Text>
+
+                    <Text style={styles.label}>المدة</Text>
+                    <View style={styles.optionRow}>
+                        {([['30days', '30 يوماً'], ['ramadan', 'رمضان'], ['custom', 'تاريخ مخصص']] as const).map(([value, label]) => (
+                            <TouchableOpacity
+                                key={value}
+                                style={[styles.option, preset === value && styles.optionSelected]}
+                                onPress={() => setPreset(value)}
+                            >
+                                <Text style={[styles.optionText, preset === value && styles.optionTextSelected]}>{label}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    {preset === 'custom' && (
+                        <TextInput
+                            style={styles.input}
+                            placeholder="تاريخ النهاية (2025-03-30)"
+                            value={customEndDate}
+                            onChangeText={setCustomEndDate}
+                            autoCorrect={false}
+                            textAlign="center"
+                        />
+                    )}
+
+                    <Text style={styles.label}>تقسيم الورد</Text>
+                    <View style={styles.optionRow}>
+                        {([['juz', 'حسب الأجزاء'], ['page', 'حسب الصفحات']] as const).map(([value, label]) => (
+                            <TouchableOpacity
+                                key={value}
+                                style={[styles.option, alignment === value && styles.optionSelected]}
+                                onPress={() => setAlignment(value)}
+                            >
+                                <Text style={[styles.optionText, alignment === value && styles.optionTextSelected]}>{label}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    <TouchableOpacity
+                        style={[styles.primaryButton, saving && styles.buttonDisabled]}
+                        onPress={handleStartPlan}
+                        disabled={saving}
+                    >
+                        <Text style={styles.primaryButtonText}>ابدأ الختمة</Text>
+                    </TouchableOpacity>
+                </View>
+
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => navigation.navigate('Reminders')}>
+                    <Text style={styles.secondaryButtonText}>⏰ تذكير الورد اليومي</Text>
+                </TouchableOpacity>
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#fefcf3'
+    },
+    content: {
+        padding: 16
+    },
+    card: {
+        padding: 16,
+        marginBottom: 12,
+        borderRadius: 12,
+        backgroundColor: '#fff',
+        borderWidth: 1,
+        borderColor: '#e5e0d5'
+    },
+    cardDone: {
+        borderColor: '#1e6f5c',
+        backgroundColor: '#f0f7f4'
+    },
+    cardTitle: {
+        fontSize: 17,
+        fontWeight: 'bold',
+        color: '#1e6f5c',
+        textAlign: 'right',
+        marginBottom: 10
+    },
+    progressTrack: {
+        height: 10,
+        borderRadius: 5,
+        backgroundColor: '#f0ebe0',
+        overflow: 'hidden',
+        transform: [{ scaleX: -1 }]
+    },
+    progressFill: {
+        height: '100%',
+        backgroundColor: '#1e6f5c'
+    },
+    progressText: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#1a1a1a',
+        textAlign: 'right',
+        marginTop: 8
+    },
+    meta: {
+        fontSize: 13,
+        color: '#8b8b8b',
+        textAlign: 'right',
+        marginTop: 4
+    },
+    portionText: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        color: '#1a1a1a',
+        textAlign: 'center',
+        marginVertical: 8
+    },
+    portionRow: {
+        flexDirection: 'row-reverse',
+        justifyContent: 'space-between',
+        paddingVertical: 8,
+        borderBottomWidth: 1,
+        borderColor: '#eee8da'
+    },
+    portionDay: {
+        fontSize: 14,
+        color: '#1a1a1a'
+    },
+    portionPages: {
+        fontSize: 14,
+        color: '#1e6f5c',
+        fontWeight: '600'
+    },
+    label: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#666',
+        textAlign: 'right',
+        marginTop: 16,
+        marginBottom: 8
+    },
+    optionRow: {
+        flexDirection: 'row-reverse',
+        gap: 8
+    },
+    option: {
+        flex: 1,
+        paddingVertical: 10,
+        borderRadius: 10,
+        borderWidth: 2,
+        borderColor: '#e5e0d5',
+        alignItems: 'center'
+    },
+    optionSelected: {
+        borderColor: '#1e6f5c',
+        backgroundColor: '#f0f7f4'
+    },
+    optionText: {
+        fontSize: 14,
+        color: '#666'
+    },
+    optionTextSelected: {
+        color: '#1e6f5c',
+        fontWeight: '600'
+    },
+    input: {
+        marginTop: 10,
+        borderWidth: 2,
+        borderColor: '#e5e0d5',
+        borderRadius: 12,
+        padding: 12,
+        fontSize: 16,
+        backgroundColor: '#fafafa'
+    },
+    primaryButton: {
+        marginTop: 16,
+        padding: 14,
+        borderRadius: 12,
+        backgroundColor: '#1e6f5c',
+        alignItems: 'center'
+    },
+    primaryButtonText: {
+        fontSize: 16,
+        color: '#fff',
+        fontWeight: '600'
+    },
+    buttonDisabled: {
+        opacity: 0.5
+    },
+    secondaryButton: {
+        padding: 14,
+        marginBottom: 12,
+        borderRadius: 12,
+        backgroundColor: '#f0ebe0',
+        alignItems: 'center'
+    },
+    secondaryButtonText: {
+        fontSize: 16,
+        color: '#1e6f5c',
+        fontWeight: '600'
+    },
+    dangerButton: {
+        padding: 14,
+        borderRadius: 12,
+        backgroundColor: '#fff5f5',
+        alignItems: 'center'
+    },
+    dangerButtonText: {
+        fontSize: 16,
+        color: '#c53030',
+        fontWeight: '600'
+    },
+    centered: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 24,
+        backgroundColor: '#fefcf3'
+    }
+});
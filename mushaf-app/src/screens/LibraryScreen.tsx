@@ -8,13 +8,18 @@ import {
     TouchableOpacity,
     Alert,
     ActivityIndicator,
-    Image
+    Image,
+    Switch
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { deleteAsync } from 'expo-file-system/legacy';
 import { useMushafStore } from '../store/mushafStore';
 import { AVAILABLE_MUSHAFS } from '../data/availableMushafs';
-import { downloadManager } from '../services/DownloadManager';
-import { Mushaf, DownloadProgress } from '../types';
+import { getCatalog, refreshCatalog, isSupportedByApp, fromInstalledRow } from '../services/MushafCatalog';
+import { downloadManager, InsufficientStorageError, UnsupportedMushafError } from '../services/DownloadManager';
+import { Mushaf, DownloadProgress, DownloadQueueSettings, QueuedDownload } from '../types';
 
 interface LibraryScreenProps {
     navigation: any;
@@ -28,43 +33,174 @@ export function LibraryScreen({ navigation }: LibraryScreenProps) {
         downloadProgress,
         setDownloadProgress,
         clearDownloadProgress,
+        setInstalledMushafs,
         setCurrentMushaf
     } = useMushafStore();
 
+    const [catalog, setCatalog] = useState<Mushaf[]>(AVAILABLE_MUSHAFS);
+    const [installedVersions, setInstalledVersions] = useState<Record<number, number>>({});
+    // Mushafs installés retirés du catalogue depuis, toujours lisibles et supprimables
+    const [removedMushafs, setRemovedMushafs] = useState<Mushaf[]>([]);
+    const [newMushafIds, setNewMushafIds] = useState<number[]>([]);
+    const [updatedMushafIds, setUpdatedMushafIds] = useState<number[]>([]);
     const [refreshing, setRefreshing] = useState(false);
+    const [verifyingId, setVerifyingId] = useState<number | null>(null);
+    const [exportingId, setExportingId] = useState<number | null>(null);
+    const [importing, setImporting] = useState(false);
+    const [queue, setQueue] = useState<QueuedDownload[]>([]);
+    const [queueSettings, setQueueSettings] = useState<DownloadQueueSettings | null>(null);
 
     useEffect(() => {
-        checkInstalledMushafs();
+        getCatalog().then(mushafs => {
+            setCatalog(mushafs);
+            checkInstalledMushafs(mushafs);
+        });
     }, []);
 
-    const checkInstalledMushafs = async () => {
-        for (const mushaf of AVAILABLE_MUSHAFS) {
-            const isInstalled = await downloadManager.isInstalled(mushaf.id);
-            if (isInstalled) {
-                addInstalledMushaf(mushaf.id);
+    // Les téléchargements sont lancés par la file du DownloadManager
+    useEffect(() => {
+        const loadQueue = () => {
+            downloadManager.getQueue().then(setQueue);
+        };
+        loadQueue();
+        downloadManager.getQueueSettings().then(setQueueSettings);
+
+        const removeProgressListener = downloadManager.addProgressListener(handleProgress);
+        const removeQueueListener = downloadManager.addQueueListener(loadQueue);
+        return () => {
+            removeProgressListener();
+            removeQueueListener();
+        };
+    }, []);
+
+    // L'état installé vient de installed_mushafs, vérifié contre les fichiers
+    const checkInstalledMushafs = async (mushafs: Mushaf[]) => {
+        const installed = await downloadManager.reconcileInstalledMushafs();
+        setInstalledMushafs(installed.map(row => row.id));
+        setInstalledVersions(Object.fromEntries(installed.map(row => [row.id, row.version])));
+        setRemovedMushafs(installed.filter(row => !mushafs.some(m => m.id === row.id)).map(fromInstalledRow));
+
+        for (const mushaf of mushafs) {
+            // Téléchargements mis en pause lors d'une session précédente
+            const pausedProgress = await downloadManager.getPausedDownload(mushaf.id);
+            if (pausedProgress) {
+                setDownloadProgress(mushaf.id, pausedProgress);
             }
         }
     };
 
-    const handleDownload = async (mushaf: Mushaf) => {
+    // Pull-to-refresh: recharge le manifeste distant, le catalogue actuel est gardé en cas d'échec
+    const handleRefresh = async () => {
+        setRefreshing(true);
+        let mushafs = catalog;
         try {
-            await downloadManager.downloadMushaf(mushaf, (progress: DownloadProgress) => {
-                setDownloadProgress(mushaf.id, progress);
+            const refresh = await refreshCatalog();
+            mushafs = refresh.mushafs;
+            setCatalog(mushafs);
+            setNewMushafIds(refresh.newMushafIds);
+            setUpdatedMushafIds(refresh.updatedMushafIds);
+        } catch (error) {
+            Alert.alert('Catalogue indisponible', (error as Error).message);
+        }
+        await checkInstalledMushafs(mushafs);
+        setRefreshing(false);
+    };
 
-                if (progress.status === 'completed') {
-                    addInstalledMushaf(mushaf.id);
-                    setTimeout(() => clearDownloadProgress(mushaf.id), 2000);
+    const handleProgress = (progress: DownloadProgress, alertOnFailure: boolean = true) => {
+        const mushafId = progress.mushaf_id;
+        setDownloadProgress(mushafId, progress);
+
+        if (progress.status === 'completed') {
+            addInstalledMushaf(mushafId);
+            downloadManager.getInstalledVersion(mushafId).then(version => {
+                if (version !== null) {
+                    setInstalledVersions(versions => ({ ...versions, [mushafId]: version }));
                 }
             });
-        } catch (error) {
+            setTimeout(() => clearDownloadProgress(mushafId), 2000);
+        } else if (progress.status === 'cancelled') {
+            clearDownloadProgress(mushafId);
+        } else if (progress.status === 'failed' && alertOnFailure) {
             Alert.alert(
                 'Erreur de téléchargement',
-                (error as Error).message,
+                progress.error,
                 [{ text: 'OK' }]
             );
         }
     };
 
+    // Faute d'espace, propose de libérer de la place depuis l'écran de stockage
+    const showDownloadError = (error: Error) => {
+        Alert.alert(
+            error instanceof UnsupportedMushafError ? 'Mise à jour requise' : 'Erreur de téléchargement',
+            error.message,
+            error instanceof InsufficientStorageError
+                ? [
+                    { text: 'OK', style: 'cancel' },
+                    { text: 'Gérer le stockage', onPress: () => navigation.navigate('Storage') }
+                ]
+                : [{ text: 'OK' }]
+        );
+    };
+
+    const handleDownload = async (mushaf: Mushaf) => {
+        try {
+            await downloadManager.enqueueDownload(mushaf);
+        } catch (error) {
+            showDownloadError(error as Error);
+        }
+    };
+
+    const handleSaveQueueSettings = async (settings: DownloadQueueSettings) => {
+        setQueueSettings(settings);
+        try {
+            await downloadManager.saveQueueSettings(settings);
+        } catch (error) {
+            Alert.alert('Erreur', (error as Error).message);
+        }
+    };
+
+    const handleResume = async (mushaf: Mushaf) => {
+        try {
+            await downloadManager.resumeDownload(mushaf);
+        } catch (error) {
+            showDownloadError(error as Error);
+        }
+    };
+
+    const handlePause = async (mushaf: Mushaf) => {
+        try {
+            if (!(await downloadManager.pauseDownload(mushaf.id))) {
+                Alert.alert('Pause impossible', `L'installation de "${mushaf.name}" est en cours.`);
+            }
+        } catch (error) {
+            Alert.alert('Erreur', (error as Error).message);
+        }
+    };
+
+    const handleCancel = (mushaf: Mushaf) => {
+        Alert.alert(
+            'Annuler le téléchargement',
+            `Les fichiers déjà téléchargés de "${mushaf.name}" seront supprimés.`,
+            [
+                { text: 'Continuer', style: 'cancel' },
+                {
+                    text: 'Annuler le téléchargement',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await downloadManager.cancelDownload(mushaf.id);
+                            // Sans téléchargement actif, aucun statut 'cancelled' n'est émis
+                            clearDownloadProgress(mushaf.id);
+                        } catch (error) {
+                            Alert.alert('Erreur', (error as Error).message);
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
     const handleDelete = async (mushaf: Mushaf) => {
         Alert.alert(
             'Supprimer le Mushaf',
@@ -78,6 +214,7 @@ export function LibraryScreen({ navigation }: LibraryScreenProps) {
                         try {
                             await downloadManager.deleteMushaf(mushaf.id);
                             removeInstalledMushaf(mushaf.id);
+                            setRemovedMushafs(mushafs => mushafs.filter(m => m.id !== mushaf.id));
                         } catch (error) {
                             Alert.alert('Erreur', (error as Error).message);
                         }
@@ -87,6 +224,99 @@ export function LibraryScreen({ navigation }: LibraryScreenProps) {
         );
     };
 
+    // Paquet reçu sur carte SD ou par partage de fichiers
+    const handleImportPackage = async () => {
+        const result = await DocumentPicker.getDocumentAsync({
+            type: ['application/zip', 'application/octet-stream'],
+            copyToCacheDirectory: true
+        });
+        if (result.canceled) {
+            return;
+        }
+
+        const packageUri = result.assets[0].uri;
+        setImporting(true);
+        try {
+            // L'échec est signalé une seule fois, par l'exception
+            const mushaf = await downloadManager.installPackage(packageUri, progress => handleProgress(progress, false));
+            Alert.alert('Paquet installé', `"${mushaf.name}" est prêt à être lu.`);
+        } catch (error) {
+            showDownloadError(error as Error);
+        } finally {
+            setImporting(false);
+            await deleteAsync(packageUri, { idempotent: true });
+        }
+    };
+
+    const handleExport = async (mushaf: Mushaf) => {
+        setExportingId(mushaf.id);
+        let packagePath: string | null = null;
+        try {
+            packagePath = await downloadManager.exportMushaf(mushaf.id);
+            if (!(await Sharing.isAvailableAsync())) {
+                throw new Error('Le partage de fichiers n\'est pas disponible sur cet appareil');
+            }
+            await Sharing.shareAsync(packagePath, {
+                mimeType: 'application/zip',
+                dialogTitle: `Partager "${mushaf.name}"`
+            });
+        } catch (error) {
+            Alert.alert('Erreur', (error as Error).message);
+        } finally {
+            setExportingId(null);
+            if (packagePath) {
+                await deleteAsync(packagePath, { idempotent: true });
+            }
+        }
+    };
+
+    const handleVerify = async (mushaf: Mushaf) => {
+        setVerifyingId(mushaf.id);
+        try {
+            const report = await downloadManager.verifyInstallation(mushaf);
+            const problems = [
+                ...report.missing_files.map(file => `Fichier manquant: ${file}`),
+                report.missing_pages.length > 0 && `${report.missing_pages.length} police(s) de page manquante(s)`,
+                report.corrupted_pages.length > 0 && `${report.corrupted_pages.length} police(s) de page corrompue(s)`
+            ].filter(Boolean);
+
+            if (problems.length === 0) {
+                Alert.alert('Vérification', `"${mushaf.name}" est installé correctement.`);
+                return;
+            }
+
+            // Hors catalogue, rien à retélécharger
+            if (!catalog.some(m => m.id === mushaf.id)) {
+                Alert.alert('Installation endommagée', problems.join('\n'));
+                return;
+            }
+
+            Alert.alert(
+                'Installation endommagée',
+                `${problems.join('\n')}\n\nRetélécharger le Mushaf ?`,
+                [
+                    { text: 'Plus tard', style: 'cancel' },
+                    {
+                        text: 'Retélécharger',
+                        onPress: async () => {
+                            try {
+                                await downloadManager.deleteMushaf(mushaf.id);
+                                removeInstalledMushaf(mushaf.id);
+                                await handleDownload(mushaf);
+                            } catch (error) {
+                                Alert.alert('Erreur', (error as Error).message);
+                            }
+                        }
+                    }
+                ]
+            );
+        } catch (error) {
+            Alert.alert('Erreur', (error as Error).message);
+        } finally {
+            setVerifyingId(null);
+        }
+    };
+
     const handleOpenReader = async (mushaf: Mushaf) => {
         setCurrentMushaf(mushaf.id);
         navigation.navigate('Reader', { mushafId: mushaf.id });
@@ -95,7 +325,12 @@ export function LibraryScreen({ navigation }: LibraryScreenProps) {
     const renderMushafCard = ({ item }: { item: Mushaf }) => {
         const isInstalled = installedMushafs.includes(item.id);
         const progress = downloadProgress[item.id];
-        const isDownloading = progress && !['completed', 'failed'].includes(progress.status);
+        const isPaused = progress?.status === 'paused';
+        const isSupported = isSupportedByApp(item);
+        const queued = queue.find(entry => entry.mushaf_id === item.id && entry.state !== 'active');
+        const hasUpdate = isInstalled && installedVersions[item.id] !== undefined && installedVersions[item.id] < item.version;
+        const isDownloading = progress && !['completed', 'failed', 'paused', 'cancelled'].includes(progress.status);
+        const isRemoved = removedMushafs.some(m => m.id === item.id);
 
         return (
             <View style={styles.card}>
@@ -117,6 +352,23 @@ export function LibraryScreen({ navigation }: LibraryScreenProps) {
                     <View style={styles.narrationBadge}>
                         <Text style={styles.narrationText}>{item.narration}</Text>
                     </View>
+
+                    {/* Catalog Badge */}
+                    {isRemoved ? (
+                        <View style={styles.catalogBadge}>
+                            <Text style={styles.catalogBadgeText}>🗄️ Retiré du catalogue</Text>
+                        </View>
+                    ) : hasUpdate ? (
+                        <View style={[styles.catalogBadge, styles.updateBadge]}>
+                            <Text style={styles.catalogBadgeText}>⬆️ Mise à jour disponible</Text>
+                        </View>
+                    ) : (newMushafIds.includes(item.id) || updatedMushafIds.includes(item.id)) && (
+                        <View style={styles.catalogBadge}>
+                            <Text style={styles.catalogBadgeText}>
+                                {newMushafIds.includes(item.id) ? '✨ Nouveau' : '🔄 Mis à jour'}
+                            </Text>
+                        </View>
+                    )}
                 </View>
 
                 {/* Info */}
@@ -140,7 +392,7 @@ export function LibraryScreen({ navigation }: LibraryScreenProps) {
                 </View>
 
                 {/* Download Progress */}
-                {isDownloading && (
+                {(isDownloading || isPaused) && (
                     <View style={styles.progressContainer}>
                         <View style={styles.progressBar}>
                             <View style={[styles.progressFill, { width: `${progress.progress}%` }]} />
@@ -152,7 +404,72 @@ export function LibraryScreen({ navigation }: LibraryScreenProps) {
 
                 {/* Actions */}
                 <View style={styles.cardActions}>
-                    {isInstalled ? (
+                    {isDownloading ? (
+                        <>
+                            <View style={styles.downloadingButton}>
+                                <ActivityIndicator size="small" color="#fff" />
+                                <Text style={styles.downloadingButtonText}>Téléchargement...</Text>
+                            </View>
+                            {progress.status === 'downloading' && (
+                                <TouchableOpacity
+                                    style={styles.secondaryButton}
+                                    onPress={() => handlePause(item)}
+                                >
+                                    <Text style={styles.secondaryButtonText}>⏸️ Pause</Text>
+                                </TouchableOpacity>
+                            )}
+                            <TouchableOpacity
+                                style={styles.deleteButton}
+                                onPress={() => handleCancel(item)}
+                            >
+                                <Text style={styles.deleteButtonText}>✕</Text>
+                            </TouchableOpacity>
+                        </>
+                    ) : queued ? (
+                        <>
+                            <View style={styles.downloadingButton}>
+                                <Text style={styles.downloadingButtonText}>
+                                    {queued.state === 'waiting_for_wifi' ? '📶 En attente du Wi-Fi' : '⏳ En attente'}
+                                </Text>
+                            </View>
+                            {queued.state === 'waiting_for_wifi' ? (
+                                <TouchableOpacity
+                                    style={styles.secondaryButton}
+                                    onPress={() => downloadManager.allowCellularDownload(item.id)}
+                                >
+                                    <Text style={styles.secondaryButtonText}>Maintenant</Text>
+                                </TouchableOpacity>
+                            ) : (
+                                <TouchableOpacity
+                                    style={styles.secondaryButton}
+                                    onPress={() => downloadManager.prioritizeDownload(item.id)}
+                                >
+                                    <Text style={styles.secondaryButtonText}>⏫</Text>
+                                </TouchableOpacity>
+                            )}
+                            <TouchableOpacity
+                                style={styles.deleteButton}
+                                onPress={() => handleCancel(item)}
+                            >
+                                <Text style={styles.deleteButtonText}>✕</Text>
+                            </TouchableOpacity>
+                        </>
+                    ) : isPaused ? (
+                        <>
+                            <TouchableOpacity
+                                style={styles.downloadButton}
+                                onPress={() => handleResume(item)}
+                            >
+                                <Text style={styles.downloadButtonText}>▶️ Reprendre</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={styles.deleteButton}
+                                onPress={() => handleCancel(item)}
+                            >
+                                <Text style={styles.deleteButtonText}>✕</Text>
+                            </TouchableOpacity>
+                        </>
+                    ) : isInstalled ? (
                         <>
                             <TouchableOpacity
                                 style={styles.primaryButton}
@@ -160,6 +477,36 @@ export function LibraryScreen({ navigation }: LibraryScreenProps) {
                             >
                                 <Text style={styles.primaryButtonText}>📖 Lire</Text>
                             </TouchableOpacity>
+                            <TouchableOpacity
+                                style={styles.secondaryButton}
+                                onPress={() => handleVerify(item)}
+                                disabled={verifyingId !== null}
+                            >
+                                {verifyingId === item.id ? (
+                                    <ActivityIndicator size="small" color="#2563eb" />
+                                ) : (
+                                    <Text style={styles.secondaryButtonText}>🔍</Text>
+                                )}
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={styles.secondaryButton}
+                                onPress={() => handleExport(item)}
+                                disabled={exportingId !== null}
+                            >
+                                {exportingId === item.id ? (
+                                    <ActivityIndicator size="small" color="#2563eb" />
+                                ) : (
+                                    <Text style={styles.secondaryButtonText}>📤</Text>
+                                )}
+                            </TouchableOpacity>
+                            {hasUpdate && isSupported && (
+                                <TouchableOpacity
+                                    style={styles.updateButton}
+                                    onPress={() => handleDownload(item)}
+                                >
+                                    <Text style={styles.updateButtonText}>⬆️</Text>
+                                </TouchableOpacity>
+                            )}
                             <TouchableOpacity
                                 style={styles.deleteButton}
                                 onPress={() => handleDelete(item)}
@@ -167,10 +514,11 @@ export function LibraryScreen({ navigation }: LibraryScreenProps) {
                                 <Text style={styles.deleteButtonText}>🗑️</Text>
                             </TouchableOpacity>
                         </>
-                    ) : isDownloading ? (
+                    ) : !isSupported ? (
                         <View style={styles.downloadingButton}>
-                            <ActivityIndicator size="small" color="#fff" />
-                            <Text style={styles.downloadingButtonText}>Téléchargement...</Text>
+                            <Text style={styles.downloadingButtonText}>
+                                Nécessite l'application {item.min_app_version}+
+                            </Text>
                         </View>
                     ) : (
                         <TouchableOpacity
@@ -191,21 +539,74 @@ export function LibraryScreen({ navigation }: LibraryScreenProps) {
             <View style={styles.header}>
                 <Text style={styles.headerTitle}>📚 Bibliothèque des Mushafs</Text>
                 <Text style={styles.headerSubtitle}>
-                    {installedMushafs.length} installé(s) sur {AVAILABLE_MUSHAFS.length}
+                    {installedMushafs.length} installé(s) sur {catalog.length}
+                    {queue.length > 0 && ` · ${queue.length} dans la file`}
                 </Text>
+                <View style={styles.headerActions}>
+                    <TouchableOpacity
+                        style={styles.storageLink}
+                        onPress={() => navigation.navigate('Storage')}
+                    >
+                        <Text style={styles.storageLinkText}>💾 Gérer le stockage</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                        style={styles.storageLink}
+                        onPress={handleImportPackage}
+                        disabled={importing}
+                    >
+                        {importing ? (
+                            <ActivityIndicator size="small" color="white" />
+                        ) : (
+                            <Text style={styles.storageLinkText}>📦 Importer un paquet</Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
             </View>
 
+            {/* Download Queue Settings */}
+            {queueSettings && (
+                <View style={styles.queueSettings}>
+                    <View style={styles.queueSetting}>
+                        <Text style={styles.queueSettingLabel}>Wi-Fi uniquement</Text>
+                        <Switch
+                            value={queueSettings.wifi_only}
+                            onValueChange={wifi_only => handleSaveQueueSettings({ ...queueSettings, wifi_only })}
+                            trackColor={{ true: '#2563eb', false: '#d1d5db' }}
+                        />
+                    </View>
+                    <View style={styles.queueSetting}>
+                        <Text style={styles.queueSettingLabel}>Simultanés</Text>
+                        <TouchableOpacity
+                            style={styles.stepperButton}
+                            onPress={() => handleSaveQueueSettings({
+                                ...queueSettings,
+                                max_concurrent: Math.max(1, queueSettings.max_concurrent - 1)
+                            })}
+                        >
+                            <Text style={styles.stepperButtonText}>−</Text>
+                        </TouchableOpacity>
+                        <Text style={styles.queueSettingValue}>{queueSettings.max_concurrent}</Text>
+                        <TouchableOpacity
+                            style={styles.stepperButton}
+                            onPress={() => handleSaveQueueSettings({
+                                ...queueSettings,
+                                max_concurrent: Math.min(3, queueSettings.max_concurrent + 1)
+                            })}
+                        >
+                            <Text style={styles.stepperButtonText}>+</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            )}
+
             {/* Mushaf List */}
             <FlatList
-                data={AVAILABLE_MUSHAFS}
+                data={[...catalog, ...removedMushafs]}
                 renderItem={renderMushafCard}
                 keyExtractor={(item) => item.id.toString()}
                 contentContainerStyle={styles.listContainer}
                 refreshing={refreshing}
-                onRefresh={() => {
-                    setRefreshing(true);
-                    checkInstalledMushafs().then(() => setRefreshing(false));
-                }}
+                onRefresh={handleRefresh}
                 showsVerticalScrollIndicator={false}
             />
         </SafeAreaView>
@@ -231,6 +632,61 @@ const styles = StyleSheet.create({
         color: 'rgba(255,255,255,0.8)',
         marginTop: 4
     },
+    headerActions: {
+        flexDirection: 'row',
+        gap: 8,
+        marginTop: 12
+    },
+    storageLink: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 8,
+        backgroundColor: 'rgba(255,255,255,0.2)'
+    },
+    storageLinkText: {
+        fontSize: 14,
+        color: 'white',
+        fontWeight: '600'
+    },
+    queueSettings: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 16,
+        paddingVertical: 8,
+        backgroundColor: 'white',
+        borderBottomWidth: 1,
+        borderColor: '#e5e7eb'
+    },
+    queueSetting: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8
+    },
+    queueSettingLabel: {
+        fontSize: 14,
+        color: '#6b7280'
+    },
+    queueSettingValue: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#1a1a1a',
+        minWidth: 16,
+        textAlign: 'center'
+    },
+    stepperButton: {
+        width: 28,
+        height: 28,
+        borderRadius: 14,
+        backgroundColor: '#eff6ff',
+        alignItems: 'center',
+        justifyContent: 'center'
+    },
+    stepperButtonText: {
+        fontSize: 18,
+        color: '#2563eb',
+        fontWeight: '600'
+    },
     listContainer: {
         padding: 16,
         gap: 16
@@ -278,6 +734,23 @@ const styles = StyleSheet.create({
         fontSize: 12,
         fontWeight: '600'
     },
+    catalogBadge: {
+        position: 'absolute',
+        top: 12,
+        left: 12,
+        backgroundColor: '#f59e0b',
+        paddingHorizontal: 12,
+        paddingVertical: 4,
+        borderRadius: 12
+    },
+    updateBadge: {
+        backgroundColor: '#2563eb'
+    },
+    catalogBadgeText: {
+        color: 'white',
+        fontSize: 12,
+        fontWeight: '600'
+    },
     cardContent: {
         padding: 16
     },
@@ -401,5 +874,29 @@ const styles = StyleSheet.create({
         color: 'white',
         fontSize: 16,
         fontWeight: '600'
+    },
+    updateButton: {
+        backgroundColor: '#059669',
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        alignItems: 'center',
+        justifyContent: 'center'
+    },
+    updateButtonText: {
+        fontSize: 18
+    },
+    secondaryButton: {
+        backgroundColor: '#eff6ff',
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        alignItems: 'center',
+        justifyContent: 'center'
+    },
+    secondaryButtonText: {
+        color: '#2563eb',
+        fontSize: 16,
+        fontWeight: '600'
     }
 });
@@ -1,6 +1,6 @@
 // src/screens/ReaderScreen.tsx
 // Direct API-based reader - simplified without Reanimated
-import React, { useEffect, useState, useCallback, useRef } from 'react';
+import React, { useEffect, useLayoutEffect, useState, useCallback, useMemo, useRef } from 'react';
 import {
     View,
     Text,
@@ -11,56 +11,213 @@ import {
     TextInput,
     Dimensions,
     PanResponder,
-    Animated
+    Animated,
+    ScrollView,
+    AppState
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { MushafPageRenderer } from '../components/MushafPageRenderer';
-import { APIWord } from '../services/QuranAPI';
+import { APIWord, PageDivision, ProcessedPage } from '../services/QuranAPI';
+import { PageDataSource, resolvePageDataSource } from '../services/PageDataSource';
+import { apiPageDataSource } from '../services/ApiPageDataSource';
+import { cacheEntireQuran } from '../services/PageCache';
+import { resolveGoToQuery } from '../services/VerseLookup';
+import { readingTracker } from '../services/ReadingTracker';
+import { cancelPrefetch, prefetchAround } from '../services/PagePrefetcher';
+import { getKhatmStatus, KhatmStatus } from '../services/KhatmPlanner';
+import { useMushafStore } from '../store/mushafStore';
+import {
+    getMainDatabase,
+    addBookmark,
+    deleteBookmark,
+    getPageBookmark,
+    getLastReadPage,
+    getPreference,
+    setPreference
+} from '../database/schema';
 
-const TOTAL_PAGES = 604;
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
+// Saved on every page turn, per Mushaf: short visits are not in the reading history
+const lastPagePreference = (mushafId: number) => `last_page_${mushafId}`;
+
 interface ReaderScreenProps {
     navigation: any;
+    route?: { params?: { mushafId?: number; page?: number } };
 }
 
-export function ReaderScreen({ navigation }: ReaderScreenProps) {
+export function ReaderScreen({ navigation, route }: ReaderScreenProps) {
+    const currentMushafId = useMushafStore(state => state.currentMushafId);
+    const mushafId = route?.params?.mushafId ?? currentMushafId;
+    const requestedPage = route?.params?.page;
+
     const [currentPage, setCurrentPage] = useState(1);
+    // False until the Mushaf is resolved and its page restored, page 1 is only a placeholder
+    const [pageReady, setPageReady] = useState(false);
     const [showGoToPage, setShowGoToPage] = useState(false);
     const [goToPageValue, setGoToPageValue] = useState('');
     const [fontVersion, setFontVersion] = useState<'v1' | 'v2'>('v1');
+    const [dataSource, setDataSource] = useState<PageDataSource>(apiPageDataSource);
+    const [division, setDivision] = useState<PageDivision | undefined>();
+    const [highlightWordIds, setHighlightWordIds] = useState<number[] | undefined>();
+    const [firstVerseKey, setFirstVerseKey] = useState<string | undefined>();
+    const [pageBookmarkId, setPageBookmarkId] = useState<number | null>(null);
+    const [khatmStatus, setKhatmStatus] = useState<KhatmStatus | null>(null);
+    const [cachingProgress, setCachingProgress] = useState<number | null>(null);
+    const cachingCancelled = useRef(false);
+    // Direction of travel, the pages the reader is heading to are prefetched first
+    const travelDirection = useRef<1 | -1>(1);
+    const previousPage = useRef(currentPage);
+
+    const TOTAL_PAGES = dataSource.totalPages;
 
     // Simple Animated value for swipe feedback
     const translateX = useRef(new Animated.Value(0)).current;
 
+    // Opened from the surah index (or any screen jumping to a page)
     useEffect(() => {
-        loadLastPage();
-    }, []);
+        if (requestedPage) {
+            setCurrentPage(requestedPage);
+        }
+    }, [requestedPage, route?.params]);
+
+    useEffect(() => {
+        setPageReady(false);
+        resolvePageDataSource(mushafId)
+            .then(async source => {
+                setDataSource(source);
+                if (!requestedPage) {
+                    await loadLastPage(source);
+                }
+                setPageReady(true);
+            })
+            .catch(error => console.log('Error resolving data source:', error));
+
+        // The Mushaf may have been updated or deleted from the library meanwhile
+        return navigation.addListener('focus', () => {
+            resolvePageDataSource(mushafId)
+                .then(setDataSource)
+                .catch(error => console.log('Error resolving data source:', error));
+        });
+    }, [mushafId, navigation]);
+
+    useEffect(() => {
+        if (pageReady) {
+            readingTracker.startPage(dataSource.mushafId, currentPage);
+        }
+    }, [pageReady, currentPage, dataSource]);
+
+    useEffect(() => {
+        if (!pageReady) {
+            return;
+        }
+        getMainDatabase()
+            .then(db => setPreference(db, lastPagePreference(dataSource.mushafId), String(currentPage)))
+            .catch(error => console.log('Error saving last page:', error));
+    }, [pageReady, currentPage, dataSource]);
+
+    // Pages queued for the previous position are dropped, the new page comes first.
+    // A layout effect, so it runs before the renderer loads the page and prefetches from it.
+    useLayoutEffect(() => {
+        if (currentPage !== previousPage.current) {
+            travelDirection.current = currentPage > previousPage.current ? 1 : -1;
+            previousPage.current = currentPage;
+        }
+        cancelPrefetch();
+    }, [currentPage]);
+
+    useEffect(() => cancelPrefetch, []);
+
+    // Only time spent with the reader visible counts as reading
+    useEffect(() => {
+        const subscription = AppState.addEventListener('change', (state) => {
+            if (state === 'active' && navigation.isFocused()) {
+                readingTracker.resume();
+            } else if (state !== 'active') {
+                readingTracker.pause();
+            }
+        });
+        const unsubscribeFocus = navigation.addListener('focus', () => readingTracker.resume());
+        const unsubscribeBlur = navigation.addListener('blur', () => readingTracker.pause());
+
+        return () => {
+            subscription.remove();
+            unsubscribeFocus();
+            unsubscribeBlur();
+            readingTracker.stop();
+        };
+    }, [navigation]);
+
+    useEffect(() => {
+        refreshPageBookmark();
+        // The bookmarks screen may have deleted this page's bookmark
+        return navigation.addListener('focus', refreshPageBookmark);
+    }, [currentPage, dataSource, navigation]);
+
+    // Today's khatm portion may change after reading or editing the plan
+    useEffect(() => {
+        refreshKhatmStatus();
+        return navigation.addListener('focus', refreshKhatmStatus);
+    }, [navigation]);
 
     useEffect(() => {
-        saveCurrentPage();
         navigation.setOptions({
-            title: `صفحة ${currentPage}`
+            title: division
+                ? `صفحة ${currentPage} · الجزء ${division.juz} · الحزب ${division.hizb}`
+                : `صفحة ${currentPage}`
         });
-    }, [currentPage, navigation]);
+    }, [currentPage, division, navigation]);
 
-    const loadLastPage = async () => {
+    const loadLastPage = async (source: PageDataSource) => {
         try {
-            const lastPage = await AsyncStorage.getItem('quran_last_page');
+            const db = await getMainDatabase();
+            const savedPage = await getPreference(db, lastPagePreference(source.mushafId));
+            let lastPage = savedPage ? parseInt(savedPage) : await getLastReadPage(db, source.mushafId);
+
+            // Before the reading history, the API reader kept its page in AsyncStorage
+            if (lastPage === null && source === apiPageDataSource) {
+                const storedPage = await AsyncStorage.getItem('quran_last_page');
+                lastPage = storedPage ? parseInt(storedPage) : null;
+            }
+
             if (lastPage) {
-                setCurrentPage(parseInt(lastPage));
+                setCurrentPage(Math.min(lastPage, source.totalPages));
             }
         } catch (error) {
             console.log('Error loading last page:', error);
         }
     };
 
-    const saveCurrentPage = async () => {
+    const refreshPageBookmark = async () => {
+        try {
+            const db = await getMainDatabase();
+            const bookmark = await getPageBookmark(db, dataSource.mushafId, currentPage);
+            setPageBookmarkId(bookmark?.id ?? null);
+        } catch (error) {
+            console.log('Error loading bookmark:', error);
+        }
+    };
+
+    const refreshKhatmStatus = async () => {
+        try {
+            setKhatmStatus(await getKhatmStatus());
+        } catch (error) {
+            console.log('Error loading khatm plan:', error);
+        }
+    };
+
+    const togglePageBookmark = async () => {
         try {
-            await AsyncStorage.setItem('quran_last_page', currentPage.toString());
+            const db = await getMainDatabase();
+            if (pageBookmarkId !== null) {
+                await deleteBookmark(db, pageBookmarkId);
+            } else {
+                await addBookmark(db, dataSource.mushafId, currentPage, undefined, undefined, firstVerseKey);
+            }
+            await refreshPageBookmark();
         } catch (error) {
-            console.log('Error saving page:', error);
+            Alert.alert('خطأ', (error as Error).message);
         }
     };
 
@@ -68,7 +225,7 @@ export function ReaderScreen({ navigation }: ReaderScreenProps) {
         if (currentPage < TOTAL_PAGES) {
             setCurrentPage(prev => prev + 1);
         }
-    }, [currentPage]);
+    }, [currentPage, TOTAL_PAGES]);
 
     const goToPreviousPage = useCallback(() => {
         if (currentPage > 1) {
@@ -76,19 +233,56 @@ export function ReaderScreen({ navigation }: ReaderScreenProps) {
         }
     }, [currentPage]);
 
-    const handleGoToPage = () => {
-        const page = parseInt(goToPageValue);
-        if (page >= 1 && page <= TOTAL_PAGES) {
-            setCurrentPage(page);
+    // Accepts a page number, a verse key (2:255) or a surah name and verse (البقرة 255)
+    const handleGoToPage = async () => {
+        try {
+            const target = await resolveGoToQuery(goToPageValue, dataSource);
+            setCurrentPage(target.pageNumber);
+            setHighlightWordIds(target.type === 'verse' ? target.wordIds : undefined);
             setShowGoToPage(false);
             setGoToPageValue('');
-        } else {
-            Alert.alert('خطأ', `الرجاء إدخال رقم بين 1 و ${TOTAL_PAGES}`);
+        } catch (error) {
+            Alert.alert('خطأ', (error as Error).message);
+        }
+    };
+
+    const handleCacheQuran = () => {
+        if (cachingProgress !== null) {
+            cachingCancelled.current = true;
+            return;
         }
+
+        Alert.alert(
+            'حفظ المصحف',
+            `سيتم تحميل جميع الصفحات (${TOTAL_PAGES}) للقراءة دون اتصال. هل تريد المتابعة؟`,
+            [
+                { text: 'إلغاء', style: 'cancel' },
+                {
+                    text: 'تحميل',
+                    onPress: async () => {
+                        cachingCancelled.current = false;
+                        setCachingProgress(0);
+                        try {
+                            const failed = await cacheEntireQuran(
+                                (cached, total) => setCachingProgress(Math.round((cached / total) * 100)),
+                                () => cachingCancelled.current
+                            );
+                            if (failed > 0) {
+                                Alert.alert('تنبيه', `تعذر تحميل ${failed} صفحة، أعد المحاولة لاحقاً`);
+                            }
+                        } catch (error) {
+                            Alert.alert('خطأ', (error as Error).message);
+                        } finally {
+                            setCachingProgress(null);
+                        }
+                    }
+                }
+            ]
+        );
     };
 
-    // Simple pan responder for swipe gestures
-    const panResponder = useRef(
+    // Simple pan responder for swipe gestures, rebuilt so swipes see the current page
+    const panResponder = useMemo(() =>
         PanResponder.create({
             onStartShouldSetPanResponder: () => true,
             onMoveShouldSetPanResponder: (_, gestureState) => {
@@ -110,8 +304,42 @@ export function ReaderScreen({ navigation }: ReaderScreenProps) {
                     friction: 8
                 }).start();
             }
-        })
-    ).current;
+        }),
+        [goToNextPage, goToPreviousPage]
+    );
+
+    const handlePageLoaded = useCallback((page: ProcessedPage) => {
+        setDivision(page.division);
+        setFirstVerseKey(page.firstVerseKey);
+        prefetchAround(dataSource, page.pageNumber, fontVersion, travelDirection.current);
+    }, [dataSource, fontVersion]);
+
+    // Long press on a word bookmarks its line and verse
+    const handleWordLongPress = useCallback((word: APIWord) => {
+        const label = word.verse_key ? `الآية ${word.verse_key} · السطر ${word.line_number}` : `السطر ${word.line_number}`;
+        Alert.alert(
+            '🔖 إضافة علامة',
+            label,
+            [
+                { text: 'إلغاء', style: 'cancel' },
+                {
+                    text: 'حفظ',
+                    onPress: async () => {
+                        try {
+                            const db = await getMainDatabase();
+                            await addBookmark(db, dataSource.mushafId, currentPage, word.line_number, undefined, word.verse_key);
+                        } catch (error) {
+                            Alert.alert('خطأ', (error as Error).message);
+                        }
+                    }
+                }
+            ]
+        );
+    }, [dataSource, currentPage]);
+
+    const handleHighlightDone = useCallback(() => {
+        setHighlightWordIds(undefined);
+    }, []);
 
     const handleWordPress = useCallback((word: APIWord) => {
         const translation = word.translation || '';
@@ -133,10 +361,24 @@ export function ReaderScreen({ navigation }: ReaderScreenProps) {
                 <MushafPageRenderer
                     pageNumber={currentPage}
                     fontVersion={fontVersion}
+                    dataSource={dataSource}
                     onWordPress={handleWordPress}
+                    onWordLongPress={handleWordLongPress}
+                    onPageLoaded={handlePageLoaded}
+                    highlightWordIds={highlightWordIds}
+                    onHighlightDone={handleHighlightDone}
                 />
             </Animated.View>
 
+            {/* Today's khatm portion */}
+            {khatmStatus?.todayPortion && khatmStatus.plan.mushaf_id === dataSource.mushafId && (
+                <TouchableOpacity style={styles.khatmBanner} onPress={() => navigation.navigate('Khatm')}>
+                    <Text style={styles.khatmBannerText}>
+                        {khatmStatus.nextPage > khatmStatus.todayPortion.end_page ? '✅' : '🎯'} ورد اليوم: الصفحات {khatmStatus.todayPortion.start_page}–{khatmStatus.todayPortion.end_page}
+                    </Text>
+                </TouchableOpacity>
+            )}
+
             {/* Bottom toolbar */}
             <View style={styles.toolbar}>
                 <TouchableOpacity
@@ -166,7 +408,12 @@ export function ReaderScreen({ navigation }: ReaderScreenProps) {
             </View>
 
             {/* Quick actions */}
-            <View style={styles.actionBar}>
+            <ScrollView
+                horizontal
+                style={styles.actionBar}
+                contentContainerStyle={styles.actionBarContent}
+                showsHorizontalScrollIndicator={false}
+            >
                 <TouchableOpacity
                     style={styles.actionBtn}
                     onPress={() => setCurrentPage(1)}
@@ -185,12 +432,90 @@ export function ReaderScreen({ navigation }: ReaderScreenProps) {
 
                 <TouchableOpacity
                     style={styles.actionBtn}
-                    onPress={() => setFontVersion(v => v === 'v1' ? 'v2' : 'v1')}
+                    onPress={togglePageBookmark}
                 >
-                    <Text style={styles.actionBtnText}>🔤</Text>
-                    <Text style={styles.actionBtnLabel}>{fontVersion.toUpperCase()}</Text>
+                    <Text style={styles.actionBtnText}>{pageBookmarkId !== null ? '🔖' : '🏷️'}</Text>
+                    <Text style={styles.actionBtnLabel}>{pageBookmarkId !== null ? 'إزالة' : 'علامة'}</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={styles.actionBtn}
+                    onPress={() => navigation.navigate('Bookmarks')}
+                >
+                    <Text style={styles.actionBtnText}>📑</Text>
+                    <Text style={styles.actionBtnLabel}>العلامات</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={styles.actionBtn}
+                    onPress={() => navigation.navigate('History')}
+                >
+                    <Text style={styles.actionBtnText}>🕒</Text>
+                    <Text style={styles.actionBtnLabel}>السجل</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={styles.actionBtn}
+                    onPress={() => navigation.navigate('Khatm')}
+                >
+                    <Text style={styles.actionBtnText}>🎯</Text>
+                    <Text style={styles.actionBtnLabel}>الختمة</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={styles.actionBtn}
+                    onPress={() => navigation.navigate('Statistics')}
+                >
+                    <Text style={styles.actionBtnText}>📊</Text>
+                    <Text style={styles.actionBtnLabel}>الإحصائيات</Text>
                 </TouchableOpacity>
-            </View>
+
+                <TouchableOpacity
+                    style={styles.actionBtn}
+                    onPress={() => navigation.navigate('SurahIndex')}
+                >
+                    <Text style={styles.actionBtnText}>📜</Text>
+                    <Text style={styles.actionBtnLabel}>السور</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={styles.actionBtn}
+                    onPress={() => navigation.navigate('Divisions')}
+                >
+                    <Text style={styles.actionBtnText}>۞</Text>
+                    <Text style={styles.actionBtnLabel}>الأجزاء</Text>
+                </TouchableOpacity>
+
+                {dataSource.supportsFontVersions && (
+                    <TouchableOpacity
+                        style={styles.actionBtn}
+                        onPress={() => setFontVersion(v => v === 'v1' ? 'v2' : 'v1')}
+                    >
+                        <Text style={styles.actionBtnText}>🔤</Text>
+                        <Text style={styles.actionBtnLabel}>{fontVersion.toUpperCase()}</Text>
+                    </TouchableOpacity>
+                )}
+
+                {dataSource === apiPageDataSource && (
+                    <TouchableOpacity
+                        style={styles.actionBtn}
+                        onPress={handleCacheQuran}
+                    >
+                        <Text style={styles.actionBtnText}>{cachingProgress === null ? '💾' : '⏹️'}</Text>
+                        <Text style={styles.actionBtnLabel}>
+                            {cachingProgress === null ? 'حفظ الكل' : `${cachingProgress}%`}
+                        </Text>
+                    </TouchableOpacity>
+                )}
+
+                <TouchableOpacity
+                    style={styles.actionBtn}
+                    onPress={() => navigation.navigate('Library')}
+                >
+                    <Text style={styles.actionBtnText}>📚</Text>
+                    <Text style={styles.actionBtnLabel}>المكتبة</Text>
+                </TouchableOpacity>
+            </ScrollView>
 
             {/* Go to page modal */}
             <Modal
@@ -205,11 +530,11 @@ export function ReaderScreen({ navigation }: ReaderScreenProps) {
                     onPress={() => setShowGoToPage(false)}
                 >
                     <View style={styles.modalContent}>
-                        <Text style={styles.modalTitle}>انتقال إلى صفحة</Text>
+                        <Text style={styles.modalTitle}>انتقال إلى صفحة أو آية</Text>
                         <TextInput
                             style={styles.modalInput}
-                            placeholder={`1 - ${TOTAL_PAGES}`}
-                            keyboardType="number-pad"
+                            placeholder={`1 - ${TOTAL_PAGES} أو 2:255`}
+                            autoCorrect={false}
                             value={goToPageValue}
                             onChangeText={setGoToPageValue}
                             autoFocus
@@ -244,6 +569,19 @@ const styles = StyleSheet.create({
     pageContainer: {
         flex: 1
     },
+    khatmBanner: {
+        paddingVertical: 8,
+        paddingHorizontal: 16,
+        backgroundColor: '#f0f7f4',
+        borderTopWidth: 1,
+        borderColor: '#e5e0d5'
+    },
+    khatmBannerText: {
+        fontSize: 14,
+        color: '#1e6f5c',
+        fontWeight: '600',
+        textAlign: 'center'
+    },
     toolbar: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -293,13 +631,17 @@ const styles = StyleSheet.create({
         color: '#8b8b8b'
     },
     actionBar: {
-        flexDirection: 'row',
-        justifyContent: 'space-around',
-        paddingVertical: 8,
+        flexGrow: 0,
         backgroundColor: '#fff',
         borderTopWidth: 1,
         borderColor: '#e5e0d5'
     },
+    actionBarContent: {
+        flexGrow: 1,
+        flexDirection: 'row',
+        justifyContent: 'space-around',
+        paddingVertical: 8
+    },
     actionBtn: {
         alignItems: 'center',
         paddingVertical: 6,
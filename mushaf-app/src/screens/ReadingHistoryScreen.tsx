@@ -0,0 +1,285 @@
+// src/screens/ReadingHistoryScreen.tsx
+// Recent reading sessions and "continue where you left off" for each Mushaf
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    SectionList,
+    TouchableOpacity,
+    ActivityIndicator
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { getCatalog } from '../services/MushafCatalog';
+import { API_MUSHAF_ID } from '../services/ApiPageDataSource';
+import { formatDuration } from '../services/ReadingTracker';
+import { DaySection, groupByDay } from '../services/ReadingStats';
+import { getMainDatabase, getRecentSessions, getLastReadPages } from '../database/schema';
+import { Mushaf, ReadingSession } from '../types';
+
+const RECENT_SESSIONS_LIMIT = 100;
+
+interface ReadingHistoryScreenProps {
+    navigation: any;
+}
+
+interface LastRead {
+    mushaf_id: number;
+    page_number: number;
+    timestamp: string;
+}
+
+function getMushafName(mushafId: number, catalog: Mushaf[]): string {
+    if (mushafId === API_MUSHAF_ID) {
+        return 'مصحف المدينة (عبر الإنترنت)';
+    }
+    return catalog.find(m => m.id === mushafId)?.name ?? `مصحف ${mushafId}`;
+}
+
+export function ReadingHistoryScreen({ navigation }: ReadingHistoryScreenProps) {
+    const [lastReads, setLastReads] = useState<LastRead[]>([]);
+    const [sections, setSections] = useState<DaySection[]>([]);
+    const [catalog, setCatalog] = useState<Mushaf[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadHistory = useCallback(async () => {
+        setError(null);
+        try {
+            const db = await getMainDatabase();
+            const [lastPages, sessions, mushafs] = await Promise.all([
+                getLastReadPages(db),
+                getRecentSessions(db, RECENT_SESSIONS_LIMIT),
+                getCatalog()
+            ]);
+            setCatalog(mushafs);
+            setLastReads(lastPages);
+            setSections(groupByDay(sessions));
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        // Sessions are recorded when the reader loses focus, refresh on return
+        return navigation.addListener('focus', loadHistory);
+    }, [navigation, loadHistory]);
+
+    const openReader = (mushafId: number, page: number) => {
+        navigation.navigate('Reader', { mushafId, page });
+    };
+
+    const renderSession = ({ item }: { item: ReadingSession }) => (
+        <TouchableOpacity style={styles.row} onPress={() => openReader(item.mushaf_id, item.page_number)}>
+            <View style={styles.rowContent}>
+                <Text style={styles.rowTitle}>صفحة {item.page_number}</Text>
+                <Text style={styles.meta}>{getMushafName(item.mushaf_id, catalog)}</Text>
+            </View>
+            <View style={styles.durationBadge}>
+                <Text style={styles.durationText}>{formatDuration(item.duration_seconds)}</Text>
+                <Text style={styles.timeText}>
+                    {new Date(item.timestamp).toLocaleTimeString('ar', { hour: '2-digit', minute: '2-digit' })}
+                </Text>
+            </View>
+        </TouchableOpacity>
+    );
+
+    const renderContinueCards = () => (
+        <View style={styles.continueContainer}>
+            <Text style={styles.continueTitle}>متابعة القراءة</Text>
+            {lastReads.map(lastRead => (
+                <TouchableOpacity
+                    key={lastRead.mushaf_id}
+                    style={styles.continueCard}
+                    onPress={() => openReader(lastRead.mushaf_id, lastRead.page_number)}
+                >
+                    <View style={styles.rowContent}>
+                        <Text style={styles.continueName}>{getMushafName(lastRead.mushaf_id, catalog)}</Text>
+                        <Text style={styles.meta}>
+                            {new Date(lastRead.timestamp).toLocaleDateString('ar')}
+                        </Text>
+                    </View>
+                    <View style={styles.continueButton}>
+                        <Text style={styles.continueButtonText}>صفحة {lastRead.page_number} ←</Text>
+                    </View>
+                </TouchableOpacity>
+            ))}
+        </View>
+    );
+
+    if (loading) {
+        return (
+            <View style={styles.centered}>
+                <ActivityIndicator size="large" color="#1e6f5c" />
+            </View>
+        );
+    }
+
+    if (error) {
+        return (
+            <View style={styles.centered}>
+                <Text style={styles.errorText}>تعذر تحميل السجل</Text>
+                <Text style={styles.errorDetail}>{error}</Text>
+                <TouchableOpacity style={styles.retryButton} onPress={loadHistory}>
+                    <Text style={styles.retryButtonText}>إعادة المحاولة</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container} edges={['bottom']}>
+            {sections.length === 0 ? (
+                <View style={styles.centered}>
+                    <Text style={styles.emptyIcon}>🕒</Text>
+                    <Text style={styles.emptyText}>لا يوجد سجل قراءة بعد</Text>
+                </View>
+            ) : (
+                <SectionList
+                    sections={sections}
+                    renderItem={renderSession}
+                    renderSectionHeader={({ section }) => (
+                        <View style={styles.sectionHeader}>
+                            <Text style={styles.sectionTitle}>{section.title}</Text>
+                        </View>
+                    )}
+                    ListHeaderComponent={renderContinueCards}
+                    keyExtractor={(item) => item.id.toString()}
+                    showsVerticalScrollIndicator={false}
+                />
+            )}
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#fefcf3'
+    },
+    continueContainer: {
+        padding: 16
+    },
+    continueTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#1e6f5c',
+        textAlign: 'right',
+        marginBottom: 12
+    },
+    continueCard: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        padding: 14,
+        marginBottom: 10,
+        borderRadius: 12,
+        backgroundColor: '#fff',
+        borderWidth: 1,
+        borderColor: '#e5e0d5'
+    },
+    continueName: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#1a1a1a'
+    },
+    continueButton: {
+        paddingVertical: 8,
+        paddingHorizontal: 14,
+        borderRadius: 10,
+        backgroundColor: '#1e6f5c'
+    },
+    continueButtonText: {
+        fontSize: 14,
+        color: '#fff',
+        fontWeight: '600'
+    },
+    sectionHeader: {
+        paddingHorizontal: 16,
+        paddingVertical: 8,
+        backgroundColor: '#f0ebe0'
+    },
+    sectionTitle: {
+        fontSize: 15,
+        fontWeight: 'bold',
+        color: '#1e6f5c',
+        textAlign: 'right'
+    },
+    row: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderColor: '#eee8da'
+    },
+    rowContent: {
+        flex: 1,
+        marginLeft: 12,
+        alignItems: 'flex-end'
+    },
+    rowTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#1a1a1a'
+    },
+    meta: {
+        fontSize: 12,
+        color: '#8b8b8b',
+        marginTop: 2
+    },
+    durationBadge: {
+        alignItems: 'center'
+    },
+    durationText: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#1e6f5c'
+    },
+    timeText: {
+        fontSize: 11,
+        color: '#8b8b8b',
+        marginTop: 2
+    },
+    centered: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 24,
+        backgroundColor: '#fefcf3'
+    },
+    emptyIcon: {
+        fontSize: 48,
+        marginBottom: 12
+    },
+    emptyText: {
+        fontSize: 18,
+        fontWeight: '600',
+        color: '#1e6f5c'
+    },
+    errorText: {
+        fontSize: 18,
+        color: '#c53030',
+        fontWeight: '600',
+        textAlign: 'center',
+        marginBottom: 8
+    },
+    errorDetail: {
+        fontSize: 14,
+        color: '#9b2c2c',
+        textAlign: 'center'
+    },
+    retryButton: {
+        marginTop: 16,
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        borderRadius: 12,
+        backgroundColor: '#1e6f5c'
+    },
+    retryButtonText: {
+        fontSize: 16,
+        color: '#fff',
+        fontWeight: '600'
+    }
+});
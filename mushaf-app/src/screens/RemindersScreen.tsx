@@ -0,0 +1,239 @@
+// src/screens/RemindersScreen.tsx
+// Daily wird reminder settings: on/off and reminder times
+import React, { useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    TextInput,
+    Switch,
+    Alert,
+    ActivityIndicator
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import {
+    formatReminderTime,
+    getReminderSettings,
+    parseReminderTime,
+    saveReminderSettings,
+    ReminderSettings
+} from '../services/WirdReminders';
+
+interface RemindersScreenProps {
+    navigation: any;
+}
+
+export function RemindersScreen({ navigation }: RemindersScreenProps) {
+    const [settings, setSettings] = useState<ReminderSettings | null>(null);
+    const [newTime, setNewTime] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        getReminderSettings()
+            .then(setSettings)
+            .catch(error => Alert.alert('خطأ', (error as Error).message));
+    }, []);
+
+    const handleAddTime = () => {
+        if (!settings) {
+            return;
+        }
+        const time = parseReminderTime(newTime);
+        if (!time) {
+            Alert.alert('خطأ', 'أدخل الوقت بالشكل 20:30');
+            return;
+        }
+        if (!settings.times.some(t => t.hour === time.hour && t.minute === time.minute)) {
+            setSettings({ ...settings, times: [...settings.times, time] });
+        }
+        setNewTime('');
+    };
+
+    const handleSave = async () => {
+        if (!settings) {
+            return;
+        }
+        setSaving(true);
+        try {
+            await saveReminderSettings(settings);
+            navigation.goBack();
+        } catch (error) {
+            Alert.alert('خطأ', (error as Error).message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (!settings) {
+        return (
+            <View style={styles.centered}>
+                <ActivityIndicator size="large" color="#1e6f5c" />
+            </View>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container} edges={['bottom']}>
+            <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                <View style={styles.card}>
+                    <View style={styles.switchRow}>
+                        <Text style={styles.switchLabel}>تذكير الورد اليومي</Text>
+                        <Switch
+                            value={settings.enabled}
+                            onValueChange={enabled => setSettings({ ...settings, enabled })}
+                            trackColor={{ true: '#1e6f5c', false: '#d4d4d4' }}
+                        />
+                    </View>
+                    <Text style={styles.hint}>
+                        يتضمن التذكير ورد الختمة المتبقي لليوم، أو آخر صفحة قرأتها
+                    </Text>
+                </View>
+
+                <View style={[styles.card, !settings.enabled && styles.cardDisabled]}>
+                    <Text style={styles.cardTitle}>أوقات التذكير</Text>
+                    {settings.times.map(time => (
+                        <View key={formatReminderTime(time)} style={styles.timeRow}>
+                            <Text style={styles.timeText}>{formatReminderTime(time)}</Text>
+                            <TouchableOpacity
+                                onPress={() => setSettings({ ...settings, times: settings.times.filter(t => t !== time) })}
+                            >
+                                <Text style={styles.removeText}>✕</Text>
+                            </TouchableOpacity>
+                        </View>
+                    ))}
+                    <View style={styles.addRow}>
+                        <TextInput
+                            style={styles.input}
+                            placeholder="20:30"
+                            value={newTime}
+                            onChangeText={setNewTime}
+                            keyboardType="numbers-and-punctuation"
+                            textAlign="center"
+                        />
+                        <TouchableOpacity style={styles.addButton} onPress={handleAddTime}>
+                            <Text style={styles.addButtonText}>إضافة</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+
+                <TouchableOpacity
+                    style={[styles.saveButton, saving && styles.buttonDisabled]}
+                    onPress={handleSave}
+                    disabled={saving}
+                >
+                    <Text style={styles.saveButtonText}>حفظ</Text>
+                </TouchableOpacity>
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#fefcf3'
+    },
+    content: {
+        padding: 16
+    },
+    card: {
+        padding: 16,
+        marginBottom: 12,
+        borderRadius: 12,
+        backgroundColor: '#fff',
+        borderWidth: 1,
+        borderColor: '#e5e0d5'
+    },
+    cardDisabled: {
+        opacity: 0.5
+    },
+    cardTitle: {
+        fontSize: 17,
+        fontWeight: 'bold',
+        color: '#1e6f5c',
+        textAlign: 'right',
+        marginBottom: 10
+    },
+    switchRow: {
+        flexDirection: 'row-reverse',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+    },
+    switchLabel: {
+        fontSize: 17,
+        fontWeight: '600',
+        color: '#1a1a1a'
+    },
+    hint: {
+        fontSize: 13,
+        color: '#8b8b8b',
+        textAlign: 'right',
+        marginTop: 8
+    },
+    timeRow: {
+        flexDirection: 'row-reverse',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 10,
+        borderBottomWidth: 1,
+        borderColor: '#eee8da'
+    },
+    timeText: {
+        fontSize: 20,
+        fontWeight: '600',
+        color: '#1a1a1a'
+    },
+    removeText: {
+        fontSize: 18,
+        color: '#c53030',
+        paddingHorizontal: 8
+    },
+    addRow: {
+        flexDirection: 'row-reverse',
+        gap: 10,
+        marginTop: 12
+    },
+    input: {
+        flex: 1,
+        borderWidth: 2,
+        borderColor: '#e5e0d5',
+        borderRadius: 12,
+        padding: 10,
+        fontSize: 18,
+        backgroundColor: '#fafafa'
+    },
+    addButton: {
+        justifyContent: 'center',
+        paddingHorizontal: 20,
+        borderRadius: 12,
+        backgroundColor: '#f0ebe0'
+    },
+    addButtonText: {
+        fontSize: 15,
+        color: '#1e6f5c',
+        fontWeight: '600'
+    },
+    saveButton: {
+        padding: 14,
+        borderRadius: 12,
+        backgroundColor: '#1e6f5c',
+        alignItems: 'center'
+    },
+    saveButtonText: {
+        fontSize: 16,
+        color: '#fff',
+        fontWeight: '600'
+    },
+    buttonDisabled: {
+        opacity: 0.5
+    },
+    centered: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 24,
+        backgroundColor: '#fefcf3'
+    }
+});
@@ -0,0 +1,331 @@
+// src/screens/StatisticsScreen.tsx
+// Reading statistics: pages per period, streaks, time spent, juz coverage and most read surahs
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    ActivityIndicator
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { getMainDatabase, getAllReadingSessions } from '../database/schema';
+import { formatDuration } from '../services/ReadingTracker';
+import {
+    computeReadingStats,
+    fromDateKey,
+    loadMushafLayout,
+    MushafLayout,
+    ReadingStats
+} from '../services/ReadingStats';
+
+interface StatisticsScreenProps {
+    navigation: any;
+}
+
+export function StatisticsScreen({ navigation }: StatisticsScreenProps) {
+    const [stats, setStats] = useState<ReadingStats | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadStats = useCallback(async () => {
+        setError(null);
+        try {
+            const db = await getMainDatabase();
+            const sessions = await getAllReadingSessions(db);
+
+            // A Mushaf whose layout can't be loaded is left out of coverage and surahs
+            const layouts = new Map<number, MushafLayout>();
+            const mushafIds = Array.from(new Set(sessions.map(s => s.mushaf_id)));
+            await Promise.all(mushafIds.map(async (mushafId) => {
+                const layout = await loadMushafLayout(mushafId).catch(() => null);
+                if (layout) {
+                    layouts.set(mushafId, layout);
+                }
+            }));
+
+            setStats(computeReadingStats(sessions, layouts));
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        return navigation.addListener('focus', loadStats);
+    }, [navigation, loadStats]);
+
+    if (loading) {
+        return (
+            <View style={styles.centered}>
+                <ActivityIndicator size="large" color="#1e6f5c" />
+            </View>
+        );
+    }
+
+    if (error || !stats) {
+        return (
+            <View style={styles.centered}>
+                <Text style={styles.errorText}>تعذر حساب الإحصائيات</Text>
+                <Text style={styles.errorDetail}>{error}</Text>
+                <TouchableOpacity style={styles.retryButton} onPress={loadStats}>
+                    <Text style={styles.retryButtonText}>إعادة المحاولة</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
+    const maxDailyPages = Math.max(1, ...stats.dailyPages.map(d => d.pages));
+
+    return (
+        <SafeAreaView style={styles.container} edges={['bottom']}>
+            <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+                {/* Pages per period */}
+                <View style={styles.cardRow}>
+                    <View style={styles.statCard}>
+                        <Text style={styles.statValue}>{stats.pagesToday}</Text>
+                        <Text style={styles.statLabel}>اليوم</Text>
+                    </View>
+                    <View style={styles.statCard}>
+                        <Text style={styles.statValue}>{stats.pagesThisWeek}</Text>
+                        <Text style={styles.statLabel}>7 أيام</Text>
+                    </View>
+                    <View style={styles.statCard}>
+                        <Text style={styles.statValue}>{stats.pagesThisMonth}</Text>
+                        <Text style={styles.statLabel}>30 يوماً</Text>
+                    </View>
+                </View>
+                <Text style={styles.caption}>عدد الصفحات المقروءة</Text>
+
+                {/* Last days chart */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>الأيام الأخيرة</Text>
+                    <View style={styles.chart}>
+                        {stats.dailyPages.map(day => (
+                            <View key={day.dateKey} style={styles.chartColumn}>
+                                <Text style={styles.chartValue}>{day.pages > 0 ? day.pages : ''}</Text>
+                                <View
+                                    style={[
+                                        styles.chartBar,
+                                        { height: Math.max(2, (day.pages / maxDailyPages) * 100) }
+                                    ]}
+                                />
+                                <Text style={styles.chartLabel}>
+                                    {fromDateKey(day.dateKey).toLocaleDateString('ar', { weekday: 'short' })}
+                                </Text>
+                            </View>
+                        ))}
+                    </View>
+                </View>
+
+                {/* Streaks and time */}
+                <View style={styles.cardRow}>
+                    <View style={styles.statCard}>
+                        <Text style={styles.statValue}>🔥 {stats.currentStreak}</Text>
+                        <Text style={styles.statLabel}>أيام متتالية</Text>
+                    </View>
+                    <View style={styles.statCard}>
+                        <Text style={styles.statValue}>{stats.longestStreak}</Text>
+                        <Text style={styles.statLabel}>أطول سلسلة</Text>
+                    </View>
+                </View>
+                <View style={styles.cardRow}>
+                    <View style={styles.statCard}>
+                        <Text style={styles.statValueSmall}>{formatDuration(stats.totalSeconds)}</Text>
+                        <Text style={styles.statLabel}>مجموع الوقت</Text>
+                    </View>
+                    <View style={styles.statCard}>
+                        <Text style={styles.statValueSmall}>{formatDuration(stats.averageSecondsPerPage)}</Text>
+                        <Text style={styles.statLabel}>متوسط الصفحة</Text>
+                    </View>
+                </View>
+
+                {/* Juz coverage heatmap */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>تغطية الأجزاء</Text>
+                    <View style={styles.heatmap}>
+                        {stats.juzCoverage.map((coverage, index) => (
+                            <View
+                                key={index}
+                                style={[
+                                    styles.heatmapCell,
+                                    { backgroundColor: coverage > 0 ? `rgba(30,111,92,${0.15 + coverage * 0.85})` : '#f0ebe0' }
+                                ]}
+                            >
+                                <Text style={[styles.heatmapText, coverage > 0.5 && styles.heatmapTextLight]}>
+                                    {index + 1}
+                                </Text>
+                            </View>
+                        ))}
+                    </View>
+                </View>
+
+                {/* Most read surahs */}
+                {stats.topSurahs.length > 0 && (
+                    <View style={styles.section}>
+                        <Text style={styles.sectionTitle}>السور الأكثر قراءة</Text>
+                        {stats.topSurahs.map(({ surah, visits }) => (
+                            <View key={surah.id} style={styles.surahRow}>
+                                <Text style={styles.surahName}>{surah.name_arabic}</Text>
+                                <Text style={styles.surahVisits}>{visits} مرة</Text>
+                            </View>
+                        ))}
+                    </View>
+                )}
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#fefcf3'
+    },
+    content: {
+        padding: 16
+    },
+    cardRow: {
+        flexDirection: 'row-reverse',
+        gap: 10,
+        marginBottom: 10
+    },
+    statCard: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 16,
+        borderRadius: 12,
+        backgroundColor: '#fff',
+        borderWidth: 1,
+        borderColor: '#e5e0d5'
+    },
+    statValue: {
+        fontSize: 26,
+        fontWeight: 'bold',
+        color: '#1e6f5c'
+    },
+    statValueSmall: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#1e6f5c'
+    },
+    statLabel: {
+        fontSize: 13,
+        color: '#8b8b8b',
+        marginTop: 4
+    },
+    caption: {
+        fontSize: 12,
+        color: '#8b8b8b',
+        textAlign: 'center',
+        marginBottom: 16
+    },
+    section: {
+        padding: 16,
+        marginBottom: 10,
+        borderRadius: 12,
+        backgroundColor: '#fff',
+        borderWidth: 1,
+        borderColor: '#e5e0d5'
+    },
+    sectionTitle: {
+        fontSize: 16,
+        fontWeight: 'bold',
+        color: '#1e6f5c',
+        textAlign: 'right',
+        marginBottom: 12
+    },
+    chart: {
+        flexDirection: 'row-reverse',
+        alignItems: 'flex-end',
+        justifyContent: 'space-between',
+        height: 140
+    },
+    chartColumn: {
+        flex: 1,
+        alignItems: 'center'
+    },
+    chartValue: {
+        fontSize: 11,
+        color: '#1e6f5c',
+        marginBottom: 2
+    },
+    chartBar: {
+        width: 18,
+        borderRadius: 4,
+        backgroundColor: '#1e6f5c'
+    },
+    chartLabel: {
+        fontSize: 11,
+        color: '#8b8b8b',
+        marginTop: 4
+    },
+    heatmap: {
+        flexDirection: 'row-reverse',
+        flexWrap: 'wrap',
+        gap: 6
+    },
+    heatmapCell: {
+        width: 40,
+        height: 40,
+        borderRadius: 8,
+        justifyContent: 'center',
+        alignItems: 'center'
+    },
+    heatmapText: {
+        fontSize: 13,
+        fontWeight: '600',
+        color: '#1e6f5c'
+    },
+    heatmapTextLight: {
+        color: '#fff'
+    },
+    surahRow: {
+        flexDirection: 'row-reverse',
+        justifyContent: 'space-between',
+        paddingVertical: 8,
+        borderBottomWidth: 1,
+        borderColor: '#eee8da'
+    },
+    surahName: {
+        fontSize: 17,
+        color: '#1a1a1a'
+    },
+    surahVisits: {
+        fontSize: 14,
+        color: '#8b8b8b'
+    },
+    centered: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 24,
+        backgroundColor: '#fefcf3'
+    },
+    errorText: {
+        fontSize: 18,
+        color: '#c53030',
+        fontWeight: '600',
+        textAlign: 'center',
+        marginBottom: 8
+    },
+    errorDetail: {
+        fontSize: 14,
+        color: '#9b2c2c',
+        textAlign: 'center'
+    },
+    retryButton: {
+        marginTop: 16,
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        borderRadius: 12,
+        backgroundColor: '#1e6f5c'
+    },
+    retryButtonText: {
+        fontSize: 16,
+        color: '#fff',
+        fontWeight: '600'
+    }
+});
@@ -0,0 +1,279 @@
+// src/screens/StorageScreen.tsx
+// Espace occupé par les Mushafs, le cache des pages et les fichiers temporaires
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    Alert,
+    ActivityIndicator
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useMushafStore } from '../store/mushafStore';
+import { downloadManager } from '../services/DownloadManager';
+import { clearPageCache } from '../services/PageCache';
+import { clearFontCache } from '../services/PagePrefetcher';
+import { getCatalog } from '../services/MushafCatalog';
+import { formatBytes, getStorageReport } from '../services/StorageUsage';
+import { Mushaf, StorageReport, TemporaryDirectory } from '../types';
+
+export function StorageScreen() {
+    const { removeInstalledMushaf, clearDownloadProgress } = useMushafStore();
+    const [report, setReport] = useState<StorageReport | null>(null);
+    const [catalog, setCatalog] = useState<Mushaf[]>([]);
+
+    const loadReport = useCallback(async () => {
+        try {
+            setReport(await getStorageReport());
+        } catch (error) {
+            Alert.alert('Erreur', (error as Error).message);
+        }
+    }, []);
+
+    useEffect(() => {
+        getCatalog().then(setCatalog);
+        loadReport();
+    }, [loadReport]);
+
+    const getMushafName = (mushafId: number) =>
+        catalog.find(m => m.id === mushafId)?.name ?? `Mushaf ${mushafId}`;
+
+    const confirm = (title: string, message: string, action: () => Promise<void>) => {
+        Alert.alert(title, message, [
+            { text: 'Annuler', style: 'cancel' },
+            {
+                text: 'Supprimer',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await action();
+                    } catch (error) {
+                        Alert.alert('Erreur', (error as Error).message);
+                    }
+                    await loadReport();
+                }
+            }
+        ]);
+    };
+
+    const handleDeleteMushaf = (mushafId: number, name: string) => {
+        confirm(
+            'Supprimer le Mushaf',
+            `Voulez-vous vraiment supprimer "${name}" ? Les signets et l'historique sont conservés.`,
+            async () => {
+                await downloadManager.deleteMushaf(mushafId);
+                removeInstalledMushaf(mushafId);
+            }
+        );
+    };
+
+    const handleClearPageCache = () => {
+        confirm(
+            'Vider le cache des pages',
+            'Les pages et les polices affichées sans Mushaf installé devront être retéléchargées.',
+            async () => {
+                await Promise.all([clearPageCache(), clearFontCache()]);
+            }
+        );
+    };
+
+    const handleDeleteTemporary = (directory: TemporaryDirectory) => {
+        confirm(
+            'Supprimer les fichiers temporaires',
+            directory.is_paused
+                ? `Le téléchargement en pause de "${getMushafName(directory.mushaf_id)}" sera annulé.`
+                : 'Ces fichiers ne sont plus utilisés.',
+            async () => {
+                await downloadManager.deleteTemporaryDirectory(directory);
+                clearDownloadProgress(directory.mushaf_id);
+            }
+        );
+    };
+
+    if (!report) {
+        return (
+            <View style={styles.centered}>
+                <ActivityIndicator size="large" color="#2563eb" />
+            </View>
+        );
+    }
+
+    const isCacheEmpty = report.page_cache.entries === 0 && report.font_cache.entries === 0;
+    const usedPercent = report.total_bytes > 0
+        ? Math.round(((report.total_bytes - report.free_bytes) / report.total_bytes) * 100)
+        : 0;
+
+    return (
+        <SafeAreaView style={styles.container} edges={['bottom']}>
+            <ScrollView contentContainerStyle={styles.content}>
+                {/* Espace libre */}
+                <View style={styles.card}>
+                    <Text style={styles.cardTitle}>💾 Espace de l'appareil</Text>
+                    <View style={styles.usageBar}>
+                        <View style={[styles.usageFill, { width: `${usedPercent}%` }]} />
+                    </View>
+                    <Text style={styles.hint}>
+                        {formatBytes(report.free_bytes)} libres sur {formatBytes(report.total_bytes)}
+                    </Text>
+                </View>
+
+                {/* Mushafs installés */}
+                <View style={styles.card}>
+                    <Text style={styles.cardTitle}>📚 Mushafs installés</Text>
+                    {report.mushafs.length === 0 && (
+                        <Text style={styles.hint}>Aucun Mushaf installé</Text>
+                    )}
+                    {report.mushafs.map(mushaf => (
+                        <View key={mushaf.mushaf_id} style={styles.row}>
+                            <View style={styles.rowInfo}>
+                                <Text style={styles.rowTitle}>{mushaf.name}</Text>
+                                <Text style={styles.rowSize}>{formatBytes(mushaf.bytes)}</Text>
+                            </View>
+                            <TouchableOpacity
+                                style={styles.deleteButton}
+                                onPress={() => handleDeleteMushaf(mushaf.mushaf_id, mushaf.name)}
+                            >
+                                <Text style={styles.deleteButtonText}>🗑️ Supprimer</Text>
+                            </TouchableOpacity>
+                        </View>
+                    ))}
+                </View>
+
+                {/* Cache de l'API */}
+                <View style={styles.card}>
+                    <Text style={styles.cardTitle}>🌐 Cache des pages</Text>
+                    <View style={styles.row}>
+                        <View style={styles.rowInfo}>
+                            <Text style={styles.rowTitle}>
+                                {report.page_cache.entries} page(s) et {report.font_cache.entries} police(s) en cache
+                            </Text>
+                            <Text style={styles.rowSize}>
+                                {formatBytes(report.page_cache.bytes + report.font_cache.bytes)}
+                            </Text>
+                        </View>
+                        <TouchableOpacity
+                            style={[styles.deleteButton, isCacheEmpty && styles.buttonDisabled]}
+                            onPress={handleClearPageCache}
+                            disabled={isCacheEmpty}
+                        >
+                            <Text style={styles.deleteButtonText}>Vider</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+
+                {/* Fichiers temporaires */}
+                <View style={styles.card}>
+                    <Text style={styles.cardTitle}>🧹 Fichiers temporaires</Text>
+                    {report.temporary_directories.length === 0 && (
+                        <Text style={styles.hint}>Aucun fichier temporaire</Text>
+                    )}
+                    {report.temporary_directories.map(directory => (
+                        <View key={directory.path} style={styles.row}>
+                            <View style={styles.rowInfo}>
+                                <Text style={styles.rowTitle}>{getMushafName(directory.mushaf_id)}</Text>
+                                <Text style={styles.rowSize}>
+                                    {directory.is_paused
+                                        ? 'Téléchargement en pause'
+                                        : directory.kind === 'backup' ? 'Ancienne version' : 'Installation interrompue'}
+                                    {' · '}{formatBytes(directory.bytes)}
+                                </Text>
+                            </View>
+                            <TouchableOpacity
+                                style={styles.deleteButton}
+                                onPress={() => handleDeleteTemporary(directory)}
+                            >
+                                <Text style={styles.deleteButtonText}>
+                                    {directory.is_paused ? 'Annuler' : 'Supprimer'}
+                                </Text>
+                            </TouchableOpacity>
+                        </View>
+                    ))}
+                </View>
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f5f5f5'
+    },
+    content: {
+        padding: 16
+    },
+    centered: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        backgroundColor: '#f5f5f5'
+    },
+    card: {
+        backgroundColor: 'white',
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 16,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+        elevation: 3
+    },
+    cardTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#1a1a1a',
+        marginBottom: 12
+    },
+    usageBar: {
+        height: 8,
+        backgroundColor: '#e5e7eb',
+        borderRadius: 4,
+        overflow: 'hidden',
+        marginBottom: 8
+    },
+    usageFill: {
+        height: '100%',
+        backgroundColor: '#2563eb'
+    },
+    hint: {
+        fontSize: 14,
+        color: '#6b7280'
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 10,
+        borderTopWidth: 1,
+        borderColor: '#f3f4f6'
+    },
+    rowInfo: {
+        flex: 1
+    },
+    rowTitle: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#1a1a1a'
+    },
+    rowSize: {
+        fontSize: 13,
+        color: '#6b7280',
+        marginTop: 2
+    },
+    deleteButton: {
+        backgroundColor: '#fee2e2',
+        paddingVertical: 8,
+        paddingHorizontal: 12,
+        borderRadius: 8
+    },
+    deleteButtonText: {
+        fontSize: 14,
+        color: '#dc2626',
+        fontWeight: '600'
+    },
+    buttonDisabled: {
+        opacity: 0.5
+    }
+});
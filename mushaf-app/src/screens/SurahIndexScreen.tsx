@@ -0,0 +1,227 @@
+// src/screens/SurahIndexScreen.tsx
+// Searchable list of the 114 surahs, opens the reader on the surah's first page
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    FlatList,
+    TouchableOpacity,
+    TextInput,
+    ActivityIndicator
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useMushafStore } from '../store/mushafStore';
+import { resolvePageDataSource } from '../services/PageDataSource';
+import { APISurah } from '../services/QuranAPI';
+import { normalizeArabic } from '../services/VerseLookup';
+
+interface SurahIndexScreenProps {
+    navigation: any;
+}
+
+function matchesQuery(surah: APISurah, query: string): boolean {
+    const trimmed = query.trim();
+    if (!trimmed) {
+        return true;
+    }
+    if (/^\d+$/.test(trimmed)) {
+        return surah.id === parseInt(trimmed, 10);
+    }
+
+    const latin = trimmed.toLowerCase();
+    return normalizeArabic(surah.name_arabic).includes(normalizeArabic(trimmed))
+        || surah.name_simple.toLowerCase().includes(latin)
+        || surah.translated_name.name.toLowerCase().includes(latin);
+}
+
+export function SurahIndexScreen({ navigation }: SurahIndexScreenProps) {
+    const currentMushafId = useMushafStore(state => state.currentMushafId);
+
+    const [surahs, setSurahs] = useState<APISurah[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [query, setQuery] = useState('');
+
+    useEffect(() => {
+        loadSurahs();
+    }, [currentMushafId]);
+
+    const loadSurahs = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            // Page numbers depend on the Mushaf (604 or 610 pages)
+            const dataSource = await resolvePageDataSource(currentMushafId);
+            setSurahs(await dataSource.getSurahs());
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const filteredSurahs = useMemo(
+        () => surahs.filter(surah => matchesQuery(surah, query)),
+        [surahs, query]
+    );
+
+    const handleOpenSurah = (surah: APISurah) => {
+        navigation.navigate('Reader', { page: surah.pages[0] });
+    };
+
+    const renderSurah = ({ item }: { item: APISurah }) => (
+        <TouchableOpacity style={styles.row} onPress={() => handleOpenSurah(item)}>
+            <View style={styles.numberBadge}>
+                <Text style={styles.numberText}>{item.id}</Text>
+            </View>
+            <View style={styles.rowContent}>
+                <Text style={styles.nameArabic}>{item.name_arabic}</Text>
+                <Text style={styles.nameLatin}>{item.name_simple} · {item.translated_name.name}</Text>
+                <Text style={styles.meta}>
+                    {item.revelation_place === 'madinah' ? 'مدنية' : 'مكية'} · {item.verses_count} آية
+                </Text>
+            </View>
+            <View style={styles.pageBadge}>
+                <Text style={styles.pageLabel}>صفحة</Text>
+                <Text style={styles.pageText}>{item.pages[0]}</Text>
+            </View>
+        </TouchableOpacity>
+    );
+
+    return (
+        <SafeAreaView style={styles.container} edges={['bottom']}>
+            <TextInput
+                style={styles.searchInput}
+                placeholder="ابحث عن سورة..."
+                value={query}
+                onChangeText={setQuery}
+                autoCorrect={false}
+                clearButtonMode="while-editing"
+                textAlign="right"
+            />
+
+            {loading ? (
+                <View style={styles.centered}>
+                    <ActivityIndicator size="large" color="#1e6f5c" />
+                </View>
+            ) : error ? (
+                <View style={styles.centered}>
+                    <Text style={styles.errorText}>تعذر تحميل قائمة السور</Text>
+                    <Text style={styles.errorDetail}>{error}</Text>
+                    <TouchableOpacity style={styles.retryButton} onPress={loadSurahs}>
+                        <Text style={styles.retryButtonText}>إعادة المحاولة</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : (
+                <FlatList
+                    data={filteredSurahs}
+                    renderItem={renderSurah}
+                    keyExtractor={(item) => item.id.toString()}
+                    keyboardShouldPersistTaps="handled"
+                    showsVerticalScrollIndicator={false}
+                />
+            )}
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#fefcf3'
+    },
+    searchInput: {
+        margin: 16,
+        borderWidth: 2,
+        borderColor: '#e5e0d5',
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        fontSize: 16,
+        backgroundColor: '#fff'
+    },
+    row: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderColor: '#eee8da'
+    },
+    numberBadge: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        backgroundColor: '#f0ebe0',
+        justifyContent: 'center',
+        alignItems: 'center'
+    },
+    numberText: {
+        fontSize: 15,
+        fontWeight: 'bold',
+        color: '#1e6f5c'
+    },
+    rowContent: {
+        flex: 1,
+        marginHorizontal: 12,
+        alignItems: 'flex-end'
+    },
+    nameArabic: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#1a1a1a'
+    },
+    nameLatin: {
+        fontSize: 13,
+        color: '#666',
+        marginTop: 2
+    },
+    meta: {
+        fontSize: 12,
+        color: '#8b8b8b',
+        marginTop: 2
+    },
+    pageBadge: {
+        alignItems: 'center'
+    },
+    pageLabel: {
+        fontSize: 11,
+        color: '#8b8b8b'
+    },
+    pageText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#1e6f5c'
+    },
+    centered: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 24
+    },
+    errorText: {
+        fontSize: 18,
+        color: '#c53030',
+        fontWeight: '600',
+        textAlign: 'center',
+        marginBottom: 8
+    },
+    errorDetail: {
+        fontSize: 14,
+        color: '#9b2c2c',
+        textAlign: 'center'
+    },
+    retryButton: {
+        marginTop: 16,
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        borderRadius: 12,
+        backgroundColor: '#1e6f5c'
+    },
+    retryButtonText: {
+        fontSize: 16,
+        color: '#fff',
+        fontWeight: '600'
+    }
+});
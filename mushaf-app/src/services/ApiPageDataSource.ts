@@ -0,0 +1,71 @@
+// src/services/ApiPageDataSource.ts
+// Page data source backed by the quran.com API and GitHub-hosted QCF fonts
+import {
+    fetchVerseByKey,
+    processPageData,
+    APISurah,
+    ProcessedPage
+} from './QuranAPI';
+import { CommonFonts, PageDataSource, PageFont, SourceVerse } from './PageDataSource';
+import { getPageResponse, getSurahsResponse } from './PageCache';
+import { DivisionStart, getDivisionStarts as fetchDivisionStarts, RUB_START_VERSE_KEYS } from './QuranDivisions';
+
+// mushaf_id of bookmarks and history recorded while reading from the quran.com API
+export const API_MUSHAF_ID = 0;
+
+const RUB_START_KEYS = new Set(RUB_START_VERSE_KEYS);
+
+export class ApiPageDataSource implements PageDataSource {
+    readonly mushafId = API_MUSHAF_ID;
+    readonly totalPages = 604;
+    readonly supportsFontVersions = true;
+
+    private surahs: Promise<APISurah[]> | null = null;
+
+    async getPage(pageNumber: number): Promise<ProcessedPage> {
+        // Served from the SQLite cache when possible, see PageCache
+        const pageData = await getPageResponse(pageNumber);
+
+        // Surah names are only cosmetic, don't fail the page without them
+        const surahs = await this.getSurahs().catch(() => undefined);
+        return processPageData(pageData, pageNumber, surahs, RUB_START_KEYS);
+    }
+
+    async getPageFont(pageNumber: number, fontVersion: 'v1' | 'v2'): Promise<PageFont> {
+        // Use QCF (Quran Complex Font) - page-specific fonts with proper glyph codes
+        const paddedPage = pageNumber.toString().padStart(3, '0');
+
+        // GitHub-hosted QCF fonts (mustafa0x/qpc-fonts repository)
+        const src = fontVersion === 'v2'
+            ? `https://raw.githubusercontent.com/mustafa0x/qpc-fonts/master/mushaf-v2-woff2/QCF_P${paddedPage}.woff2`
+            : `https://raw.githubusercontent.com/mustafa0x/qpc-fonts/master/mushaf-woff2/QCF_P${paddedPage}.woff2`;
+
+        return { family: `QCF_P${paddedPage}`, src, format: 'woff2' };
+    }
+
+    // No common fonts are hosted, headers are rendered as text
+    async getCommonFonts(): Promise<CommonFonts> {
+        return { surahNames: null, bismillah: null };
+    }
+
+    getSurahs(): Promise<APISurah[]> {
+        if (!this.surahs) {
+            this.surahs = getSurahsResponse();
+            // Allow a retry on the next call if the request failed
+            this.surahs.catch(() => { this.surahs = null; });
+        }
+        return this.surahs;
+    }
+
+    getVerse(verseKey: string): Promise<SourceVerse> {
+        return fetchVerseByKey(verseKey);
+    }
+
+    // Madani pages and opening verses from the juz listings, cached after the first load
+    getDivisionStarts(onProgress?: (loadedJuz: number, totalJuz: number) => void): Promise<DivisionStart[]> {
+        return fetchDivisionStarts(onProgress);
+    }
+}
+
+// Singleton instance
+export const apiPageDataSource = new ApiPageDataSource();
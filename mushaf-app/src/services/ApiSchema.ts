@@ -0,0 +1,175 @@
+// src/services/ApiSchema.ts
+// Runtime checks of quran.com payloads, so upstream changes fail loudly instead of rendering broken pages
+import { APIPageResponse, APISurah, APIVerse } from './QuranAPI';
+
+// Diagnostics beyond this are summarized, a broken field repeats on every word
+const MAX_REPORTED_ERRORS = 10;
+
+type Value = Record<string, unknown>;
+
+/**
+ * Collects every problem with its path, e.g. "verses[3].words[2].line_number"
+ */
+class SchemaChecker {
+    readonly errors: string[] = [];
+
+    expect(ok: boolean, path: string, expected: string): boolean {
+        if (!ok) {
+            this.errors.push(`${path}: expected ${expected}`);
+        }
+        return ok;
+    }
+
+    object(value: unknown, path: string): value is Value {
+        return this.expect(typeof value === 'object' && value !== null && !Array.isArray(value), path, 'object');
+    }
+
+    array(value: unknown, path: string): value is unknown[] {
+        return this.expect(Array.isArray(value), path, 'array');
+    }
+
+    int(value: unknown, path: string, min: number = 0, max: number = Number.MAX_SAFE_INTEGER): boolean {
+        return this.expect(
+            Number.isInteger(value) && (value as number) >= min && (value as number) <= max,
+            path,
+            max === Number.MAX_SAFE_INTEGER ? `integer >= ${min}` : `integer in ${min}-${max}`
+        );
+    }
+
+    string(value: unknown, path: string, optional: boolean = false): boolean {
+        return this.expect(
+            (optional && value === undefined) || (typeof value === 'string' && value.length > 0),
+            path,
+            optional ? 'non-empty string or nothing' : 'non-empty string'
+        );
+    }
+
+    throwIfInvalid(what: string): void {
+        if (this.errors.length === 0) {
+            return;
+        }
+        const reported = this.errors.slice(0, MAX_REPORTED_ERRORS);
+        if (this.errors.length > MAX_REPORTED_ERRORS) {
+            reported.push(`... and ${this.errors.length - MAX_REPORTED_ERRORS} more`);
+        }
+        throw new Error(`Invalid ${what}:\n${reported.join('\n')}`);
+    }
+}
+
+function checkWord(checker: SchemaChecker, word: unknown, path: string): void {
+    if (!checker.object(word, path)) {
+        return;
+    }
+    checker.int(word.id, `${path}.id`, 1);
+    checker.int(word.position, `${path}.position`, 1);
+    checker.string(word.char_type_name, `${path}.char_type_name`);
+    checker.string(word.code_v1, `${path}.code_v1`);
+    checker.string(word.code_v2, `${path}.code_v2`, true);
+    checker.int(word.page_number, `${path}.page_number`, 1, 604);
+    checker.int(word.line_number, `${path}.line_number`, 1, 15);
+    checker.expect(typeof word.text === 'string', `${path}.text`, 'string');
+    checker.string(word.text_uthmani, `${path}.text_uthmani`, true);
+}
+
+function checkVerse(checker: SchemaChecker, verse: unknown, path: string, withWords: boolean): void {
+    if (!checker.object(verse, path)) {
+        return;
+    }
+    checker.int(verse.id, `${path}.id`, 1);
+    checker.int(verse.verse_number, `${path}.verse_number`, 1);
+    checker.expect(
+        typeof verse.verse_key === 'string' && /^\d{1,3}:\d{1,3}$/.test(verse.verse_key),
+        `${path}.verse_key`,
+        '"surah:verse"'
+    );
+    checker.int(verse.page_number, `${path}.page_number`, 1, 604);
+    checker.int(verse.juz_number, `${path}.juz_number`, 1, 30);
+    checker.int(verse.hizb_number, `${path}.hizb_number`, 1, 60);
+    checker.int(verse.rub_el_hizb_number, `${path}.rub_el_hizb_number`, 1, 240);
+    checker.int(verse.ruku_number, `${path}.ruku_number`, 1);
+    checker.int(verse.manzil_number, `${path}.manzil_number`, 1, 7);
+    checker.expect(
+        verse.sajdah_number === null || verse.sajdah_number === undefined || Number.isInteger(verse.sajdah_number),
+        `${path}.sajdah_number`,
+        'integer or null'
+    );
+    checker.string(verse.text_uthmani, `${path}.text_uthmani`, true);
+
+    if (withWords && checker.array(verse.words, `${path}.words`)) {
+        verse.words.forEach((word: unknown, index: number) => checkWord(checker, word, `${path}.words[${index}]`));
+    }
+}
+
+function checkSurah(checker: SchemaChecker, surah: unknown, path: string): void {
+    if (!checker.object(surah, path)) {
+        return;
+    }
+    checker.int(surah.id, `${path}.id`, 1, 114);
+    checker.string(surah.revelation_place, `${path}.revelation_place`);
+    checker.int(surah.revelation_order, `${path}.revelation_order`, 1, 114);
+    checker.expect(typeof surah.bismillah_pre === 'boolean', `${path}.bismillah_pre`, 'boolean');
+    checker.string(surah.name_simple, `${path}.name_simple`);
+    checker.string(surah.name_complex, `${path}.name_complex`);
+    checker.string(surah.name_arabic, `${path}.name_arabic`);
+    checker.int(surah.verses_count, `${path}.verses_count`, 1);
+    checker.expect(
+        Array.isArray(surah.pages) && surah.pages.length === 2
+            && surah.pages.every((page: unknown) => Number.isInteger(page)),
+        `${path}.pages`,
+        '[first page, last page]'
+    );
+    if (checker.object(surah.translated_name, `${path}.translated_name`)) {
+        checker.string(surah.translated_name.name, `${path}.translated_name.name`);
+    }
+}
+
+/**
+ * Checks a verses listing (by page or by juz). Words are required unless
+ * the request was made with words=false.
+ */
+export function validatePageResponse(data: unknown, withWords: boolean = true): APIPageResponse {
+    const checker = new SchemaChecker();
+
+    if (checker.object(data, 'response')) {
+        if (checker.array(data.verses, 'verses')) {
+            data.verses.forEach((verse: unknown, index: number) =>
+                checkVerse(checker, verse, `verses[${index}]`, withWords));
+        }
+        if (checker.object(data.pagination, 'pagination')) {
+            checker.int(data.pagination.current_page, 'pagination.current_page', 1);
+            checker.int(data.pagination.total_pages, 'pagination.total_pages', 0);
+            checker.expect(
+                data.pagination.next_page === null || Number.isInteger(data.pagination.next_page),
+                'pagination.next_page',
+                'integer or null'
+            );
+        }
+    }
+
+    checker.throwIfInvalid('verses response');
+    return data as APIPageResponse;
+}
+
+export function validateVerse(data: unknown): APIVerse {
+    const checker = new SchemaChecker();
+    checkVerse(checker, data, 'verse', true);
+    checker.throwIfInvalid('verse');
+    return data as APIVerse;
+}
+
+export function validateSurahs(data: unknown): APISurah[] {
+    const checker = new SchemaChecker();
+    if (checker.array(data, 'chapters')) {
+        data.forEach((surah, index) => checkSurah(checker, surah, `chapters[${index}]`));
+        checker.expect(data.length === 114, 'chapters', '114 surahs');
+    }
+    checker.throwIfInvalid('chapters');
+    return data as APISurah[];
+}
+
+export function validateSurah(data: unknown): APISurah {
+    const checker = new SchemaChecker();
+    checkSurah(checker, data, 'chapter');
+    checker.throwIfInvalid('chapter');
+    return data as APISurah;
+}
@@ -2,35 +2,298 @@
 // Using legacy API for backwards compatibility with react-native-zip-archive
 import {
     documentDirectory,
+    cacheDirectory,
     makeDirectoryAsync,
     deleteAsync,
     getInfoAsync,
     readDirectoryAsync,
     createDownloadResumable,
     DownloadResumable,
+    DownloadPauseState,
+    moveAsync,
+    writeAsStringAsync,
+    readAsStringAsync,
+    getFreeDiskStorageAsync,
+    copyAsync,
 } from 'expo-file-system/legacy';
-import { unzip } from 'react-native-zip-archive';
+import { File } from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
+import * as Network from 'expo-network';
+import { unzip, zip } from 'react-native-zip-archive';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as SQLite from 'expo-sqlite';
-import { Mushaf, DownloadProgress } from '../types';
+import {
+    getMainDatabase,
+    getPreference,
+    setPreference,
+    getInstalledMushafs,
+    getInstalledMushaf,
+    upsertInstalledMushaf,
+    deleteInstalledMushaf,
+    setInstalledMushafPath,
+    InstalledMushafRow
+} from '../database/schema';
+import { closeLayoutDatabase } from './LocalMushafDataSource';
+import { forgetPageDataSource } from './PageDataSource';
+import { clearPreparedPages } from './PagePrefetcher';
+import { findCatalogMushaf, isSupportedByApp } from './MushafCatalog';
+import { AVAILABLE_MUSHAFS } from '../data/availableMushafs';
+import { Sha256 } from './Sha256';
+import {
+    Mushaf,
+    MushafArtifact,
+    DownloadProgress,
+    DownloadQueueSettings,
+    InstallationReport,
+    QueuedDownload,
+    TemporaryDirectory
+} from '../types';
+
+// Empreintes SHA-256 des polices de pages, calculées à l'installation
+const FONT_CHECKSUMS_FILE = 'font_checksums.json';
+const HASH_CHUNK_BYTES = 1024 * 1024;
+// Au-delà, le fichier est haché par blocs en JS plutôt que chargé en entier pour le hachage natif
+const NATIVE_HASH_MAX_BYTES = 32 * 1024 * 1024;
+
+const QUEUE_KEY = 'download_queue';
+const MAX_CONCURRENT_PREFERENCE = 'download_max_concurrent';
+const WIFI_ONLY_PREFERENCE = 'download_wifi_only';
+const DEFAULT_QUEUE_SETTINGS: DownloadQueueSettings = { max_concurrent: 1, wifi_only: true };
+
+// Nom de chaque fichier dans le répertoire d'installation et dans les paquets
+const ARTIFACT_FILES: Record<MushafArtifact, string> = {
+    database_sqlite: 'mushaf_layout.db',
+    common_fonts_zip: 'common_fonts.zip',
+    fonts_zip: 'fonts.zip'
+};
+
+// Paquet local (carte SD, partage de fichiers): les trois fichiers et un manifeste dans un ZIP
+const PACKAGE_MANIFEST_FILE = 'manifest.json';
+const PACKAGE_FORMAT_VERSION = 1;
+
+// Taille des polices extraites par rapport à leur archive (les TTF se compressent peu)
+const EXTRACTION_RATIO = 1.2;
+// Marge laissée au système et à la base principale
+const FREE_SPACE_MARGIN_BYTES = 50 * 1024 * 1024;
+
+// Nouvelles tentatives par URL avant de passer au miroir suivant, avec un délai doublé à chaque fois
+const DOWNLOAD_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+// Entrée persistée de la file, l'état est calculé à la lecture
+type QueueEntry = Omit<QueuedDownload, 'state'>;
+
+export interface MushafPackageManifest {
+    format_version: number;
+    mushaf: Pick<Mushaf, 'id' | 'version' | 'name' | 'code' | 'pages_count' | 'lines_per_page'>;
+    files: Record<MushafArtifact, { size_bytes: number; sha256: string }>;
+    exported_at: string;
+}
+
+interface DownloadStep {
+    key: MushafArtifact;
+    filePath: string;
+    label: string;
+    startPercent: number;
+    weightPercent: number;
+}
+
+// Point de reprise d'un téléchargement, conservé entre deux lancements de l'app
+interface DownloadCheckpoint {
+    completedSteps: MushafArtifact[];
+    currentStep?: MushafArtifact;
+    currentUrl?: string; // URL principale ou miroir du fichier en cours
+    targetDir: string; // Répertoire temporaire, renommé en mushafs/{id}/ une fois validé
+    pauseState?: DownloadPauseState;
+    progress: number;
+}
+
+// Interruption volontaire (pause ou annulation), à distinguer d'un échec
+class DownloadInterruptedError extends Error {
+    constructor(readonly reason: 'paused' | 'cancelled') {
+        super(reason === 'paused' ? 'Téléchargement en pause' : 'Téléchargement annulé');
+    }
+}
+
+// Espace disque insuffisant pour installer un Mushaf, les fichiers déjà téléchargés sont conservés
+export class InsufficientStorageError extends Error {
+    constructor(readonly requiredBytes: number, readonly availableBytes: number) {
+        super(
+            `Espace insuffisant: ${Math.ceil(requiredBytes / 1024 / 1024)} MB nécessaires, ` +
+            `${Math.floor(availableBytes / 1024 / 1024)} MB disponibles`
+        );
+    }
+}
+
+// Mushaf qui demande une version plus récente de l'application
+export class UnsupportedMushafError extends Error {
+    constructor(readonly mushafName: string, readonly minAppVersion: string) {
+        super(`"${mushafName}" nécessite la version ${minAppVersion} de l'application. Mettez l'application à jour.`);
+    }
+}
+
+// Réponse HTTP autre que 200. Les erreurs serveur et la limitation de débit méritent une nouvelle tentative.
+class HttpStatusError extends Error {
+    constructor(readonly url: string, readonly status: number) {
+        super(`Échec du téléchargement (HTTP ${status}): ${url}`);
+    }
+
+    get retryable(): boolean {
+        return this.status >= 500 || this.status === 408 || this.status === 429;
+    }
+}
+
+// Fichier indisponible sur toutes ses URL. Les fichiers déjà vérifiés sont conservés pour la reprise.
+class ArtifactDownloadError extends Error {}
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 natif (expo-crypto) pour la base et les polices de pages. Seule
+ * l'archive des polices (~185 MB), qui ne tiendrait pas en mémoire, est lue par blocs.
+ */
+async function sha256File(fileUri: string): Promise<string> {
+    const file = new File(fileUri);
+    if (file.size <= NATIVE_HASH_MAX_BYTES) {
+        const digest = await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, await file.bytes());
+        return toHex(new Uint8Array(digest));
+    }
+
+    const handle = file.open();
+    const hash = new Sha256();
+    try {
+        for (;;) {
+            const chunk = handle.readBytes(HASH_CHUNK_BYTES);
+            if (chunk.length === 0) {
+                break;
+            }
+            hash.update(chunk);
+            // Laisse l'interface se mettre à jour entre deux blocs
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+    } finally {
+        handle.close();
+    }
+    return hash.hexDigest();
+}
+
+/**
+ * Taille totale des fichiers d'un répertoire, 0 s'il n'existe pas
+ */
+export async function getDirectorySize(directoryUri: string): Promise<number> {
+    const info = await getInfoAsync(directoryUri);
+    if (!info.exists) {
+        return 0;
+    }
+    if (!info.isDirectory) {
+        return info.size;
+    }
+
+    let total = 0;
+    for (const name of await readDirectoryAsync(directoryUri)) {
+        total += await getDirectorySize(`${directoryUri.replace(/\/$/, '')}/${name}`);
+    }
+    return total;
+}
+
+/**
+ * Vérifie le manifeste d'un paquet local
+ */
+function parsePackageManifest(data: unknown): MushafPackageManifest {
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+        typeof value === 'object' && value !== null && !Array.isArray(value);
+
+    const formatVersion = isObject(data) ? data.format_version : undefined;
+    if (!isObject(data) || formatVersion !== PACKAGE_FORMAT_VERSION) {
+        throw new Error(`Format de paquet non pris en charge: ${formatVersion}`);
+    }
+    if (!isObject(data.mushaf) || !Number.isInteger(data.mushaf.id) || !Number.isInteger(data.mushaf.version)) {
+        throw new Error('Manifeste du paquet invalide: identifiant ou version du Mushaf manquant');
+    }
+    for (const artifact of Object.keys(ARTIFACT_FILES) as MushafArtifact[]) {
+        const file = isObject(data.files) ? data.files[artifact] : undefined;
+        if (
+            !isObject(file)
+            || !Number.isInteger(file.size_bytes)
+            || typeof file.sha256 !== 'string'
+            || !/^[0-9a-f]{64}$/i.test(file.sha256)
+        ) {
+            throw new Error(`Manifeste du paquet invalide: fichier ${ARTIFACT_FILES[artifact]}`);
+        }
+    }
+    return data as unknown as MushafPackageManifest;
+}
+
+/**
+ * Refuse un Mushaf dont le catalogue ne donne pas le SHA-256 de chaque fichier,
+ * comme la liste intégrée tant que le manifeste distant n'a pas été chargé
+ */
+function assertChecksums(mushaf: Mushaf): void {
+    const missing = (Object.keys(ARTIFACT_FILES) as MushafArtifact[]).filter(key => !mushaf.checksums?.[key]);
+    if (missing.length > 0) {
+        throw new Error(
+            `Sommes de contrôle absentes du catalogue pour "${mushaf.name}" ` +
+            `(${missing.map(key => ARTIFACT_FILES[key]).join(', ')}). Actualisez la bibliothèque.`
+        );
+    }
+}
+
+/**
+ * Refuse un Mushaf que cette version de l'application ne sait pas lire
+ */
+function assertSupported(mushaf: Mushaf): void {
+    if (!isSupportedByApp(mushaf)) {
+        throw new UnsupportedMushafError(mushaf.name, mushaf.min_app_version!);
+    }
+}
 
 export class DownloadManager {
     private activeDownloads = new Map<number, DownloadResumable>();
     private progressCallbacks = new Map<number, (progress: DownloadProgress) => void>();
+    private interruptions = new Map<number, 'paused' | 'cancelled'>();
+    private currentProgress = new Map<number, DownloadProgress>();
+    // Extraction et installation en cours: les archives sont supprimées au fur et à mesure,
+    // il n'y a plus rien à reprendre
+    private installing = new Set<number>();
+
+    // File d'attente
+    private queueActive = new Set<number>();
+    private pausedForNetwork = new Set<number>();
+    private queueRun: Promise<void> | null = null;
+    private queueDirty = false;
+    private queueWrite: Promise<void> = Promise.resolve();
+    private networkSubscription: { remove(): void } | null = null;
+    private progressListeners = new Set<(progress: DownloadProgress) => void>();
+    private queueListeners = new Set<() => void>();
 
     /**
-     * Télécharge un Mushaf complet avec validation stricte
+     * Télécharge un Mushaf complet avec validation stricte.
+     * Reprend là où un téléchargement en pause s'était arrêté.
+     * L'installation est préparée dans un répertoire temporaire et ne remplace
+     * la version éventuellement installée qu'une fois validée.
      */
     async downloadMushaf(
         mushaf: Mushaf,
         onProgress: (progress: DownloadProgress) => void
     ): Promise<void> {
-        const mushafDir = `${documentDirectory}mushafs/${mushaf.id}/`;
+        // Avant tout nettoyage: un téléchargement en pause garde ses fichiers
+        assertSupported(mushaf);
+        assertChecksums(mushaf);
+
+        const checkpoint = await this.loadCheckpoint(mushaf.id) ?? {
+            completedSteps: [],
+            progress: 0,
+            targetDir: `${documentDirectory}mushafs/${mushaf.id}.staging/`
+        };
+        const targetDir = checkpoint.targetDir;
 
         const progress: DownloadProgress = {
             mushaf_id: mushaf.id,
             status: 'initializing',
-            progress: 0,
+            progress: checkpoint.progress,
             downloaded_bytes: 0,
             total_bytes: mushaf.size_mb * 1024 * 1024,
             speed_mbps: 0,
@@ -39,140 +302,960 @@ export class DownloadManager {
         };
 
         this.progressCallbacks.set(mushaf.id, onProgress);
+        this.currentProgress.set(mushaf.id, progress);
+        this.interruptions.delete(mushaf.id);
 
         try {
-            // Étape 1: Créer les répertoires
-            await makeDirectoryAsync(mushafDir, { intermediates: true });
-            await makeDirectoryAsync(`${mushafDir}fonts/`, { intermediates: true });
+            // Étape 1: Vérifier l'espace libre puis créer les répertoires
+            await this.ensureFreeSpace(await this.getRequiredSpace(mushaf));
+            await makeDirectoryAsync(targetDir, { intermediates: true });
+            await makeDirectoryAsync(`${targetDir}fonts/`, { intermediates: true });
 
-            // Étape 2: Télécharger la base de données SQLite (10% du temps)
-            progress.status = 'downloading';
-            progress.current_step = 'Téléchargement de la base de données...';
-            onProgress(progress);
+            // Étapes 2 à 4: base de données (10%), polices communes (5%), 604 polices (60%)
+            const steps = this.getDownloadSteps(mushaf, targetDir);
 
-            const dbPath = `${mushafDir}mushaf_layout.db`;
-            await this.downloadFile(
-                mushaf.download_urls.database_sqlite,
-                dbPath,
-                (downloadProgress) => {
-                    progress.progress = downloadProgress * 10;
-                    progress.downloaded_bytes = downloadProgress * progress.total_bytes * 0.1;
-                    onProgress(progress);
+            for (const step of steps) {
+                // Déjà téléchargé et vérifié lors d'une session précédente
+                if (checkpoint.completedSteps.includes(step.key) && (await getInfoAsync(step.filePath)).exists) {
+                    continue;
                 }
-            );
 
-            // Étape 3: Télécharger les polices communes (5% du temps)
-            progress.current_step = 'Téléchargement des polices communes...';
+                await this.downloadArtifact(mushaf, step, checkpoint, progress, onProgress);
+
+                checkpoint.completedSteps.push(step.key);
+                checkpoint.currentStep = undefined;
+                checkpoint.currentUrl = undefined;
+                checkpoint.progress = step.startPercent + step.weightPercent;
+                await this.saveCheckpoint(mushaf.id, checkpoint);
+                // Pause demandée pendant la vérification du fichier
+                this.throwIfInterrupted(mushaf.id);
+            }
+
+            this.installing.add(mushaf.id);
+            await this.installStagedArtifacts(mushaf, targetDir, progress, onProgress);
+            await this.clearCheckpoint(mushaf.id);
+
+            // Terminé !
+            progress.status = 'completed';
+            progress.progress = 100;
+            progress.current_step = 'Installation terminée !';
             onProgress(progress);
 
-            const commonFontsZip = `${mushafDir}common_fonts.zip`;
-            await this.downloadFile(
-                mushaf.download_urls.common_fonts_zip,
-                commonFontsZip,
-                (downloadProgress) => {
-                    progress.progress = 10 + (downloadProgress * 5);
-                    onProgress(progress);
-                }
-            );
+        } catch (error) {
+            if (error instanceof DownloadInterruptedError && error.reason === 'paused') {
+                // Les fichiers et le point de reprise sont conservés
+                progress.status = 'paused';
+                progress.speed_mbps = 0;
+                progress.eta_seconds = 0;
+                progress.current_step = 'En pause';
+                onProgress(progress);
+                return;
+            }
 
-            // Étape 4: Télécharger le ZIP des 604 polices (60% du temps)
-            progress.current_step = `Téléchargement des ${mushaf.pages_count} polices...`;
+            // Nettoyer les fichiers partiels (jamais la version installée).
+            // Faute d'espace ou de réseau, les fichiers vérifiés sont gardés pour reprendre plus tard.
+            if (!(error instanceof InsufficientStorageError || error instanceof ArtifactDownloadError)) {
+                await this.cleanupPartialDownload(targetDir);
+                await this.clearCheckpoint(mushaf.id);
+            }
+
+            if (error instanceof DownloadInterruptedError) {
+                progress.status = 'cancelled';
+                progress.current_step = 'Téléchargement annulé';
+                onProgress(progress);
+                return;
+            }
+
+            progress.status = 'failed';
+            progress.error = (error as Error).message;
+            progress.current_step = `Erreur: ${(error as Error).message}`;
             onProgress(progress);
 
-            const fontsZipPath = `${mushafDir}fonts.zip`;
-            const startTime = Date.now();
+            throw error;
+        } finally {
+            this.activeDownloads.delete(mushaf.id);
+            this.progressCallbacks.delete(mushaf.id);
+            this.currentProgress.delete(mushaf.id);
+            this.interruptions.delete(mushaf.id);
+            this.installing.delete(mushaf.id);
+        }
+    }
 
-            await this.downloadFile(
-                mushaf.download_urls.fonts_zip,
-                fontsZipPath,
-                (downloadProgress) => {
-                    const elapsed = (Date.now() - startTime) / 1000;
-                    const bytesDownloaded = downloadProgress * progress.total_bytes * 0.6;
+    private getDownloadSteps(mushaf: Mushaf, targetDir: string): DownloadStep[] {
+        return [
+            {
+                key: 'database_sqlite',
+                filePath: `${targetDir}${ARTIFACT_FILES.database_sqlite}`,
+                label: 'Téléchargement de la base de données...',
+                startPercent: 0,
+                weightPercent: 10
+            },
+            {
+                key: 'common_fonts_zip',
+                filePath: `${targetDir}${ARTIFACT_FILES.common_fonts_zip}`,
+                label: 'Téléchargement des polices communes...',
+                startPercent: 10,
+                weightPercent: 5
+            },
+            {
+                key: 'fonts_zip',
+                filePath: `${targetDir}${ARTIFACT_FILES.fonts_zip}`,
+                label: `Téléchargement des ${mushaf.pages_count} polices...`,
+                startPercent: 15,
+                weightPercent: 60
+            }
+        ];
+    }
 
-                    progress.progress = 15 + (downloadProgress * 60);
-                    progress.downloaded_bytes = bytesDownloaded;
-                    progress.speed_mbps = elapsed > 0 ? (bytesDownloaded / 1024 / 1024) / elapsed : 0;
+    /**
+     * Extraction, vérifications et mise en place des fichiers d'un répertoire
+     * temporaire, communes aux téléchargements et aux paquets locaux
+     */
+    private async installStagedArtifacts(
+        mushaf: Mushaf,
+        targetDir: string,
+        progress: DownloadProgress,
+        onProgress: (progress: DownloadProgress) => void
+    ): Promise<void> {
+        this.throwIfInterrupted(mushaf.id);
 
-                    const remainingBytes = progress.total_bytes - bytesDownloaded;
-                    progress.eta_seconds = progress.speed_mbps > 0
-                        ? Math.round(remainingBytes / (progress.speed_mbps * 1024 * 1024))
-                        : 0;
+        // Étape 5: Décompresser les polices communes (5% du temps)
+        progress.status = 'extracting';
+        progress.current_step = 'Extraction des polices communes...';
+        progress.progress = 75;
+        onProgress(progress);
 
-                    onProgress(progress);
-                }
-            );
+        await unzip(`${targetDir}${ARTIFACT_FILES.common_fonts_zip}`, `${targetDir}fonts/common/`);
+        await deleteAsync(`${targetDir}${ARTIFACT_FILES.common_fonts_zip}`, { idempotent: true });
 
-            // Étape 5: Décompresser les polices communes (5% du temps)
-            progress.status = 'extracting';
-            progress.current_step = 'Extraction des polices communes...';
-            progress.progress = 75;
-            onProgress(progress);
+        this.throwIfInterrupted(mushaf.id);
 
-            await unzip(commonFontsZip, `${mushafDir}fonts/common/`);
-            await deleteAsync(commonFontsZip, { idempotent: true });
+        // Étape 6: Décompresser les 604 polices (15% du temps)
+        progress.current_step = `Extraction des ${mushaf.pages_count} polices...`;
+        progress.progress = 80;
+        onProgress(progress);
 
-            // Étape 6: Décompresser les 604 polices (15% du temps)
-            progress.current_step = `Extraction des ${mushaf.pages_count} polices...`;
-            progress.progress = 80;
-            onProgress(progress);
+        await unzip(`${targetDir}${ARTIFACT_FILES.fonts_zip}`, `${targetDir}fonts/pages/`);
+        await deleteAsync(`${targetDir}${ARTIFACT_FILES.fonts_zip}`, { idempotent: true });
 
-            await unzip(fontsZipPath, `${mushafDir}fonts/pages/`);
-            await deleteAsync(fontsZipPath, { idempotent: true });
+        this.throwIfInterrupted(mushaf.id);
 
-            progress.progress = 95;
-            onProgress(progress);
+        progress.progress = 95;
+        onProgress(progress);
 
-            // Étape 7: Vérifier l'intégrité (5% du temps)
-            progress.status = 'verifying';
-            progress.current_step = 'Vérification de l\'intégrité...';
-            onProgress(progress);
+        // Étape 7: Vérifier l'intégrité (5% du temps)
+        progress.status = 'verifying';
+        progress.current_step = 'Vérification de l\'intégrité...';
+        onProgress(progress);
+
+        await this.verifyIntegrity(targetDir, mushaf);
+
+        // Étape 8: Validation des 15 lignes par page
+        await this.validate15LinesPerPage(`${targetDir}${ARTIFACT_FILES.database_sqlite}`, mushaf.pages_count);
+        this.throwIfInterrupted(mushaf.id);
+
+        // Empreintes des polices pour la vérification ultérieure de l'installation
+        progress.current_step = 'Calcul des empreintes des polices...';
+        onProgress(progress);
+        await this.saveFontChecksums(targetDir, mushaf.pages_count);
+
+        // Dernière annulation possible: la mise en place remplace la version installée
+        this.throwIfInterrupted(mushaf.id);
+
+        // Étape 9: Mettre en place les fichiers et enregistrer l'installation
+        await this.commitStagedInstall(mushaf, targetDir, `${documentDirectory}mushafs/${mushaf.id}/`);
+    }
 
-            await this.verifyIntegrity(mushafDir, mushaf);
+    /**
+     * Installe un Mushaf depuis un paquet local (ZIP avec manifeste), avec les
+     * mêmes vérifications qu'un téléchargement. Le Mushaf doit figurer au catalogue
+     * et le paquet ne doit pas être plus ancien que la version installée.
+     */
+    async installPackage(
+        packageUri: string,
+        onProgress: (progress: DownloadProgress) => void
+    ): Promise<Mushaf> {
+        const packageInfo = await getInfoAsync(packageUri);
+        if (!packageInfo.exists) {
+            throw new Error(`Paquet introuvable: ${packageUri}`);
+        }
+        // Le paquet, ses trois fichiers et les polices extraites coexistent au pire moment
+        await this.ensureFreeSpace(packageInfo.size * (2 + EXTRACTION_RATIO) + FREE_SPACE_MARGIN_BYTES);
 
-            // Étape 8: Validation des 15 lignes par page
-            await this.validate15LinesPerPage(dbPath, mushaf.pages_count);
+        const unpackDir = `${cacheDirectory}mushaf_package/`;
+        await deleteAsync(unpackDir, { idempotent: true });
 
-            // Étape 9: Enregistrer dans la base principale
-            const mainDb = await SQLite.openDatabaseAsync('mushaf_library.db');
-            await mainDb.runAsync(
-                `INSERT INTO installed_mushafs (id, name, code, pages_count, lines_per_page, local_path, installed_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?)`,
-                [mushaf.id, mushaf.name, mushaf.code, mushaf.pages_count, mushaf.lines_per_page, mushafDir, new Date().toISOString()]
+        let targetDir: string | null = null;
+        let progress: DownloadProgress | null = null;
+        let mushafId: number | null = null;
+        try {
+            await unzip(packageUri, unpackDir);
+            const manifest = parsePackageManifest(
+                JSON.parse(await readAsStringAsync(`${unpackDir}${PACKAGE_MANIFEST_FILE}`))
             );
 
-            // Étape 10: Sauvegarder dans AsyncStorage
-            await AsyncStorage.setItem(`mushaf_${mushaf.id}_installed`, 'true');
-            await AsyncStorage.setItem(`mushaf_${mushaf.id}_path`, mushafDir);
+            const catalogMushaf = await findCatalogMushaf(manifest.mushaf.id);
+            if (!catalogMushaf) {
+                throw new Error(`Mushaf ${manifest.mushaf.id} absent du catalogue`);
+            }
+            if (catalogMushaf.code !== manifest.mushaf.code || catalogMushaf.pages_count !== manifest.mushaf.pages_count) {
+                throw new Error(`Le paquet ne correspond pas au Mushaf "${catalogMushaf.name}" du catalogue`);
+            }
+            assertSupported(catalogMushaf);
+            if (this.progressCallbacks.has(catalogMushaf.id)) {
+                throw new Error(`"${catalogMushaf.name}" est en cours de téléchargement`);
+            }
+            // Un paquet plus ancien remplacerait silencieusement la version installée
+            const installedVersion = await this.getInstalledVersion(catalogMushaf.id);
+            if (installedVersion !== null && manifest.mushaf.version < installedVersion) {
+                throw new Error(
+                    `Le paquet contient la version ${manifest.mushaf.version} de "${catalogMushaf.name}", ` +
+                    `plus ancienne que la version ${installedVersion} installée`
+                );
+            }
+
+            // Les empreintes du manifeste remplacent celles du catalogue
+            const artifacts = Object.keys(ARTIFACT_FILES) as MushafArtifact[];
+            const mushaf: Mushaf = {
+                ...catalogMushaf,
+                version: manifest.mushaf.version,
+                checksums: Object.fromEntries(artifacts.map(key => [key, manifest.files[key].sha256])) as Mushaf['checksums'],
+                file_sizes: Object.fromEntries(artifacts.map(key => [key, manifest.files[key].size_bytes])) as Mushaf['file_sizes']
+            };
+
+            // Un téléchargement en pause du même Mushaf est remplacé par le paquet
+            await this.cancelDownload(mushaf.id);
+
+            mushafId = mushaf.id;
+            targetDir = `${documentDirectory}mushafs/${mushaf.id}.staging/`;
+            progress = {
+                mushaf_id: mushaf.id,
+                status: 'verifying',
+                progress: 0,
+                downloaded_bytes: 0,
+                total_bytes: packageInfo.size,
+                speed_mbps: 0,
+                eta_seconds: 0,
+                current_step: 'Lecture du paquet...'
+            };
+            this.progressCallbacks.set(mushaf.id, onProgress);
+            this.currentProgress.set(mushaf.id, progress);
+            // Un paquet local n'a pas de point de reprise
+            this.installing.add(mushaf.id);
+            onProgress(progress);
+
+            await this.cleanupPartialDownload(targetDir);
+            await makeDirectoryAsync(`${targetDir}fonts/`, { intermediates: true });
+            for (const step of this.getDownloadSteps(mushaf, targetDir)) {
+                await moveAsync({ from: `${unpackDir}${ARTIFACT_FILES[step.key]}`, to: step.filePath });
+                const checksumError = await this.checkArtifactChecksum(mushaf, step, progress, onProgress);
+                if (checksumError) {
+                    throw new Error(checksumError);
+                }
+                progress.progress = step.startPercent + step.weightPercent;
+                onProgress(progress);
+            }
+
+            await this.installStagedArtifacts(mushaf, targetDir, progress, onProgress);
 
-            // Terminé !
             progress.status = 'completed';
             progress.progress = 100;
             progress.current_step = 'Installation terminée !';
             onProgress(progress);
+            return mushaf;
 
         } catch (error) {
-            progress.status = 'failed';
-            progress.error = (error as Error).message;
-            progress.current_step = `Erreur: ${(error as Error).message}`;
-            onProgress(progress);
+            if (targetDir) {
+                await this.cleanupPartialDownload(targetDir);
+            }
+            if (progress && error instanceof DownloadInterruptedError) {
+                progress.status = 'cancelled';
+                progress.current_step = 'Installation annulée';
+                onProgress(progress);
+            } else if (progress) {
+                progress.status = 'failed';
+                progress.error = (error as Error).message;
+                progress.current_step = `Erreur: ${(error as Error).message}`;
+                onProgress(progress);
+            }
+            throw error;
+        } finally {
+            await this.cleanupPartialDownload(unpackDir);
+            if (mushafId !== null) {
+                this.progressCallbacks.delete(mushafId);
+                this.currentProgress.delete(mushafId);
+                this.interruptions.delete(mushafId);
+                this.installing.delete(mushafId);
+            }
+        }
+    }
 
-            // Nettoyer les fichiers partiels
-            await this.cleanupPartialDownload(mushafDir);
+    /**
+     * Écrit un Mushaf installé dans un paquet partageable, relu par installPackage.
+     * Retourne le chemin du ZIP, dans le cache: à supprimer une fois partagé.
+     */
+    async exportMushaf(mushafId: number): Promise<string> {
+        const mainDb = await getMainDatabase();
+        const row = await getInstalledMushaf(mainDb, mushafId);
+        if (!row) {
+            throw new Error('Ce Mushaf n\'est pas installé');
+        }
+
+        const workDir = `${cacheDirectory}mushaf_export_${mushafId}/`;
+        const packagePath = `${cacheDirectory}mushaf-${mushafId}-v${row.version}.zip`;
+        await deleteAsync(workDir, { idempotent: true });
+        await deleteAsync(packagePath, { idempotent: true });
+
+        // Les archives de travail puis le paquet final font chacun à peu près la taille de l'installation
+        await this.ensureFreeSpace(2 * await getDirectorySize(row.local_path) + FREE_SPACE_MARGIN_BYTES);
 
+        try {
+            await makeDirectoryAsync(workDir, { intermediates: true });
+            await copyAsync({
+                from: `${row.local_path}${ARTIFACT_FILES.database_sqlite}`,
+                to: `${workDir}${ARTIFACT_FILES.database_sqlite}`
+            });
+            await zip(`${row.local_path}fonts/common/`, `${workDir}${ARTIFACT_FILES.common_fonts_zip}`);
+            await zip(`${row.local_path}fonts/pages/`, `${workDir}${ARTIFACT_FILES.fonts_zip}`);
+
+            const files = {} as MushafPackageManifest['files'];
+            for (const [artifact, fileName] of Object.entries(ARTIFACT_FILES) as [MushafArtifact, string][]) {
+                const info = await getInfoAsync(`${workDir}${fileName}`);
+                files[artifact] = {
+                    size_bytes: info.exists ? info.size : 0,
+                    sha256: await sha256File(`${workDir}${fileName}`)
+                };
+            }
+
+            const manifest: MushafPackageManifest = {
+                format_version: PACKAGE_FORMAT_VERSION,
+                mushaf: {
+                    id: row.id,
+                    version: row.version,
+                    name: row.name,
+                    code: row.code as Mushaf['code'],
+                    pages_count: row.pages_count as Mushaf['pages_count'],
+                    lines_per_page: row.lines_per_page as Mushaf['lines_per_page']
+                },
+                files,
+                exported_at: new Date().toISOString()
+            };
+            await writeAsStringAsync(`${workDir}${PACKAGE_MANIFEST_FILE}`, JSON.stringify(manifest, null, 2));
+
+            await zip(
+                [PACKAGE_MANIFEST_FILE, ...Object.values(ARTIFACT_FILES)].map(fileName => `${workDir}${fileName}`),
+                packagePath
+            );
+            return packagePath;
+        } catch (error) {
+            await this.cleanupPartialDownload(packagePath);
             throw error;
         } finally {
-            this.activeDownloads.delete(mushaf.id);
-            this.progressCallbacks.delete(mushaf.id);
+            await this.cleanupPartialDownload(workDir);
         }
     }
 
+    /**
+     * Reprend un téléchargement en pause, y compris après un redémarrage de l'app.
+     * Il repasse par la file d'attente.
+     */
+    async resumeDownload(mushaf: Mushaf): Promise<void> {
+        return this.enqueueDownload(mushaf);
+    }
+
+    /**
+     * Met en pause le fichier en cours de téléchargement et enregistre
+     * les données de reprise. Entre deux tentatives ou pendant la vérification
+     * d'un fichier, la pause prend effet à l'étape suivante.
+     * Retourne false une fois l'extraction commencée: la pause n'est plus possible.
+     */
+    async pauseDownload(mushafId: number): Promise<boolean> {
+        if (!this.progressCallbacks.has(mushafId) || this.installing.has(mushafId)) {
+            return false;
+        }
+
+        const progress = this.currentProgress.get(mushafId)?.progress;
+        this.interruptions.set(mushafId, 'paused');
+        const downloadResumable = this.activeDownloads.get(mushafId);
+        if (!downloadResumable) {
+            return true;
+        }
+        const pauseState = await downloadResumable.pauseAsync();
+
+        const checkpoint = await this.loadCheckpoint(mushafId);
+        if (checkpoint) {
+            checkpoint.pauseState = pauseState;
+            checkpoint.progress = progress ?? checkpoint.progress;
+            await this.saveCheckpoint(mushafId, checkpoint);
+        }
+        return true;
+    }
+
+    /**
+     * Annule un téléchargement en cours ou en pause et supprime les fichiers partiels
+     */
+    async cancelDownload(mushafId: number): Promise<void> {
+        await this.updateQueue(queue => queue.filter(entry => entry.mushaf_id !== mushafId));
+
+        if (this.progressCallbacks.has(mushafId)) {
+            // downloadMushaf nettoie à la prochaine étape
+            this.interruptions.set(mushafId, 'cancelled');
+            await this.activeDownloads.get(mushafId)?.cancelAsync();
+            return;
+        }
+
+        const checkpoint = await this.loadCheckpoint(mushafId);
+        if (checkpoint) {
+            await this.cleanupPartialDownload(checkpoint.targetDir);
+            await this.clearCheckpoint(mushafId);
+        }
+    }
+
+    /**
+     * Démarre la file d'attente au lancement: reprend les téléchargements
+     * interrompus et suit les changements de réseau
+     */
+    startDownloadQueue(): void {
+        if (this.networkSubscription) {
+            return;
+        }
+        this.networkSubscription = Network.addNetworkStateListener(() => {
+            this.applyNetworkPolicy().catch(error => console.error('Erreur de la file de téléchargement:', error));
+        });
+        this.processQueue();
+    }
+
+    /**
+     * Ajoute un Mushaf à la file d'attente, démarré dès qu'une place et le réseau le permettent
+     */
+    async enqueueDownload(mushaf: Mushaf, priority: number = 0): Promise<void> {
+        assertSupported(mushaf);
+        assertChecksums(mushaf);
+        await this.ensureFreeSpace(await this.getRequiredSpace(mushaf));
+        await this.updateQueue(queue => queue.some(entry => entry.mushaf_id === mushaf.id)
+            ? queue
+            : [...queue, { mushaf_id: mushaf.id, priority, enqueued_at: new Date().toISOString(), allow_cellular: false }]);
+        await this.processQueue();
+    }
+
+    /**
+     * Place un téléchargement en tête de la file
+     */
+    async prioritizeDownload(mushafId: number): Promise<void> {
+        await this.updateQueue(queue => {
+            const topPriority = Math.max(0, ...queue.map(entry => entry.priority));
+            return queue.map(entry => entry.mushaf_id === mushafId ? { ...entry, priority: topPriority + 1 } : entry);
+        });
+        await this.processQueue();
+    }
+
+    /**
+     * Autorise un téléchargement sur le réseau mobile malgré la règle Wi-Fi uniquement
+     */
+    async allowCellularDownload(mushafId: number): Promise<void> {
+        await this.updateQueue(queue =>
+            queue.map(entry => entry.mushaf_id === mushafId ? { ...entry, allow_cellular: true } : entry));
+        await this.processQueue();
+    }
+
+    /**
+     * File d'attente dans l'ordre de démarrage, avec l'état de chaque téléchargement
+     */
+    async getQueue(): Promise<QueuedDownload[]> {
+        const [queue, settings, allowed] = await Promise.all([
+            this.loadQueue(),
+            this.getQueueSettings(),
+            this.isNetworkAllowed()
+        ]);
+
+        return this.sortQueue(queue).map(entry => ({
+            ...entry,
+            state: this.queueActive.has(entry.mushaf_id)
+                ? 'active'
+                : settings.wifi_only && !allowed && !entry.allow_cellular ? 'waiting_for_wifi' : 'waiting'
+        }));
+    }
+
+    async getQueueSettings(): Promise<DownloadQueueSettings> {
+        const mainDb = await getMainDatabase();
+        const [maxConcurrent, wifiOnly] = await Promise.all([
+            getPreference(mainDb, MAX_CONCURRENT_PREFERENCE),
+            getPreference(mainDb, WIFI_ONLY_PREFERENCE)
+        ]);
+
+        return {
+            max_concurrent: maxConcurrent ? parseInt(maxConcurrent, 10) : DEFAULT_QUEUE_SETTINGS.max_concurrent,
+            wifi_only: wifiOnly ? wifiOnly === 'true' : DEFAULT_QUEUE_SETTINGS.wifi_only
+        };
+    }
+
+    async saveQueueSettings(settings: DownloadQueueSettings): Promise<void> {
+        const mainDb = await getMainDatabase();
+        await setPreference(mainDb, MAX_CONCURRENT_PREFERENCE, String(Math.max(1, settings.max_concurrent)));
+        await setPreference(mainDb, WIFI_ONLY_PREFERENCE, String(settings.wifi_only));
+        await this.applyNetworkPolicy();
+    }
+
+    /**
+     * Progression de tous les téléchargements lancés par la file
+     */
+    addProgressListener(listener: (progress: DownloadProgress) => void): () => void {
+        this.progressListeners.add(listener);
+        return () => this.progressListeners.delete(listener);
+    }
+
+    addQueueListener(listener: () => void): () => void {
+        this.queueListeners.add(listener);
+        return () => this.queueListeners.delete(listener);
+    }
+
+    /**
+     * Démarre les téléchargements en attente. Les appels pendant un passage
+     * en relancent un autre, pour ne jamais démarrer deux fois le même Mushaf.
+     */
+    private processQueue(): Promise<void> {
+        this.queueDirty = true;
+        if (!this.queueRun) {
+            this.queueRun = (async () => {
+                while (this.queueDirty) {
+                    this.queueDirty = false;
+                    await this.startQueuedDownloads();
+                }
+            })()
+                .catch(error => console.error('Erreur de la file de téléchargement:', error))
+                .finally(() => { this.queueRun = null; });
+        }
+        return this.queueRun;
+    }
+
+    private async startQueuedDownloads(): Promise<void> {
+        const queue = await this.getQueue();
+        const settings = await this.getQueueSettings();
+
+        for (const entry of queue) {
+            if (this.queueActive.size >= settings.max_concurrent) {
+                break;
+            }
+            if (entry.state !== 'waiting') {
+                continue;
+            }
+
+            const mushaf = await findCatalogMushaf(entry.mushaf_id);
+            if (!mushaf) {
+                // Retiré du catalogue depuis la mise en file
+                await this.updateQueue(q => q.filter(e => e.mushaf_id !== entry.mushaf_id));
+                continue;
+            }
+            this.queueActive.add(mushaf.id);
+            this.runQueuedDownload(mushaf);
+        }
+        this.notifyQueueListeners();
+    }
+
+    private async runQueuedDownload(mushaf: Mushaf): Promise<void> {
+        let status = 'initializing' as DownloadProgress['status'];
+        try {
+            await this.downloadMushaf(mushaf, progress => {
+                status = progress.status;
+                this.progressListeners.forEach(listener => listener(progress));
+            });
+        } catch {
+            // L'échec est signalé aux écouteurs par le statut 'failed'
+        } finally {
+            this.queueActive.delete(mushaf.id);
+            // Mis en pause faute de Wi-Fi: reste dans la file pour reprendre plus tard
+            const waitsForNetwork = this.pausedForNetwork.delete(mushaf.id) && status === 'paused';
+            if (!waitsForNetwork) {
+                await this.updateQueue(queue => queue.filter(entry => entry.mushaf_id !== mushaf.id));
+            }
+            this.processQueue();
+        }
+    }
+
+    /**
+     * Met en pause les téléchargements qui ne sont plus autorisés sur le réseau
+     * actuel, puis démarre ceux qui le sont
+     */
+    private async applyNetworkPolicy(): Promise<void> {
+        const [queue, settings, allowed] = await Promise.all([
+            this.getQueue(),
+            this.getQueueSettings(),
+            this.isNetworkAllowed()
+        ]);
+        const blocked = settings.wifi_only && !allowed
+            ? queue.filter(entry => entry.state === 'active' && !entry.allow_cellular)
+            : [];
+        for (const entry of blocked) {
+            this.pausedForNetwork.add(entry.mushaf_id);
+            // L'installation se termine sans réseau
+            if (!(await this.pauseDownload(entry.mushaf_id))) {
+                this.pausedForNetwork.delete(entry.mushaf_id);
+            }
+        }
+        await this.processQueue();
+    }
+
+    /**
+     * Wi-Fi ou Ethernet: réseau sans restriction pour les gros téléchargements
+     */
+    private async isNetworkAllowed(): Promise<boolean> {
+        const network = await Network.getNetworkStateAsync();
+        return network.type === Network.NetworkStateType.WIFI || network.type === Network.NetworkStateType.ETHERNET;
+    }
+
+    private sortQueue(queue: QueueEntry[]): QueueEntry[] {
+        return [...queue].sort((a, b) => b.priority - a.priority || a.enqueued_at.localeCompare(b.enqueued_at));
+    }
+
+    private async loadQueue(): Promise<QueueEntry[]> {
+        const saved = await AsyncStorage.getItem(QUEUE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    }
+
+    // Les modifications de la file s'enchaînent pour qu'aucune n'en écrase une autre
+    private updateQueue(update: (queue: QueueEntry[]) => QueueEntry[]): Promise<void> {
+        const write = this.queueWrite.then(async () => {
+            await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(update(await this.loadQueue())));
+            this.notifyQueueListeners();
+        });
+        this.queueWrite = write.catch(() => undefined);
+        return write;
+    }
+
+    private notifyQueueListeners(): void {
+        this.queueListeners.forEach(listener => listener());
+    }
+
+    /**
+     * Version du paquet installé, null si le Mushaf n'est pas installé
+     */
+    async getInstalledVersion(mushafId: number): Promise<number | null> {
+        const mainDb = await getMainDatabase();
+        return (await getInstalledMushaf(mainDb, mushafId))?.version ?? null;
+    }
+
+    /**
+     * Met en place l'installation validée par renommage du répertoire temporaire,
+     * puis l'enregistre en une seule écriture. Une version déjà installée est
+     * gardée dans mushafs/{id}.old/ jusqu'à la fin de l'échange.
+     * Les signets et l'historique sont liés au mushaf_id et restent en place.
+     */
+    private async commitStagedInstall(mushaf: Mushaf, stagingDir: string, mushafDir: string): Promise<void> {
+        const backupDir = `${documentDirectory}mushafs/${mushaf.id}.old/`;
+        const isUpdate = (await getInfoAsync(mushafDir)).exists;
+
+        if (isUpdate) {
+            await closeLayoutDatabase(mushafDir);
+            await deleteAsync(backupDir, { idempotent: true });
+            await moveAsync({ from: mushafDir, to: backupDir });
+        }
+        try {
+            await moveAsync({ from: stagingDir, to: mushafDir });
+        } catch (error) {
+            if (isUpdate) {
+                await moveAsync({ from: backupDir, to: mushafDir });
+            }
+            throw error;
+        }
+
+        const mainDb = await getMainDatabase();
+        await upsertInstalledMushaf(mainDb, mushaf, mushafDir);
+
+        // Les pages et polices de l'ancienne version ne doivent plus être servies
+        clearPreparedPages(mushaf.id);
+        forgetPageDataSource(mushaf.id);
+
+        await deleteAsync(backupDir, { idempotent: true });
+    }
+
+    /**
+     * Réconciliation au démarrage entre installed_mushafs, qui fait foi, et le
+     * système de fichiers: nettoie les installations interrompues par un arrêt
+     * de l'app et retire celles dont les fichiers ont disparu.
+     * Retourne les Mushafs réellement installés.
+     */
+    async reconcileInstalledMushafs(): Promise<InstalledMushafRow[]> {
+        const rootDir = `${documentDirectory}mushafs/`;
+        const mainDb = await getMainDatabase();
+        await this.migrateLegacyInstallFlags();
+        const installedIds = new Set((await getInstalledMushafs(mainDb)).map(row => row.id));
+
+        const entries = (await getInfoAsync(rootDir)).exists ? await readDirectoryAsync(rootDir) : [];
+        for (const entry of entries) {
+            const match = entry.match(/^(\d+)(\.staging|\.old)?$/);
+            if (!match) {
+                continue;
+            }
+            const mushafId = parseInt(match[1], 10);
+            const dir = `${rootDir}${entry}/`;
+            const mushafDir = `${rootDir}${mushafId}/`;
+            if (this.progressCallbacks.has(mushafId)) {
+                continue;
+            }
+
+            if (match[2] === '.old') {
+                // Arrêt pendant l'échange: l'ancienne version revient si la nouvelle n'est pas en place
+                if ((await getInfoAsync(mushafDir)).exists) {
+                    await this.cleanupPartialDownload(dir);
+                } else {
+                    await moveAsync({ from: dir, to: mushafDir });
+                }
+            } else if (match[2] === '.staging') {
+                // Un téléchargement en pause garde son répertoire temporaire
+                if (!(await this.loadCheckpoint(mushafId))) {
+                    await this.cleanupPartialDownload(dir);
+                }
+            } else if (!installedIds.has(mushafId)) {
+                console.warn(`Installation incomplète du Mushaf ${mushafId} supprimée`);
+                await this.cleanupPartialDownload(dir);
+            }
+        }
+
+        for (const row of await getInstalledMushafs(mainDb)) {
+            if (await this.hasLayoutFiles(row.local_path)) {
+                continue;
+            }
+
+            // Le répertoire Documents change de chemin après certaines mises à jour iOS
+            const mushafDir = `${rootDir}${row.id}/`;
+            if (row.local_path !== mushafDir && await this.hasLayoutFiles(mushafDir)) {
+                await setInstalledMushafPath(mainDb, row.id, mushafDir);
+            } else {
+                console.warn(`Fichiers du Mushaf ${row.id} introuvables, installation retirée`);
+                await deleteInstalledMushaf(mainDb, row.id);
+            }
+        }
+
+        return await getInstalledMushafs(mainDb);
+    }
+
+    /**
+     * Reprend dans installed_mushafs les installations connues seulement des
+     * anciennes clés AsyncStorage (INSERT en échec lors d'une réinstallation).
+     * Ces installations datent de la liste intégrée, qui sert de repli quand le
+     * Mushaf n'est plus au catalogue.
+     */
+    private async migrateLegacyInstallFlags(): Promise<void> {
+        const legacyKeys = (await AsyncStorage.getAllKeys()).filter(key => /^mushaf_\d+_(installed|path)$/.test(key));
+        if (legacyKeys.length === 0) {
+            return;
+        }
+
+        const mainDb = await getMainDatabase();
+        const unresolvedIds = new Set<number>();
+        for (const key of legacyKeys.filter(k => k.endsWith('_installed'))) {
+            const mushafId = parseInt(key.split('_')[1], 10);
+            const path = await AsyncStorage.getItem(`mushaf_${mushafId}_path`);
+            if (!path || (await getInstalledMushaf(mainDb, mushafId)) || !(await this.hasLayoutFiles(path))) {
+                continue;
+            }
+
+            const mushaf = await findCatalogMushaf(mushafId) ?? AVAILABLE_MUSHAFS.find(m => m.id === mushafId);
+            if (!mushaf) {
+                // Clés gardées: la migration est retentée au prochain lancement
+                console.warn(`Mushaf ${mushafId} installé mais inconnu, migration reportée`);
+                unresolvedIds.add(mushafId);
+                continue;
+            }
+            // Version inconnue: la plus ancienne, pour proposer une éventuelle mise à jour
+            await upsertInstalledMushaf(mainDb, { ...mushaf, version: 1 }, path);
+        }
+
+        await AsyncStorage.multiRemove(
+            legacyKeys.filter(key => !unresolvedIds.has(parseInt(key.split('_')[1], 10)))
+        );
+    }
+
+    private async hasLayoutFiles(mushafDir: string): Promise<boolean> {
+        const [dbInfo, fontInfo] = await Promise.all([
+            getInfoAsync(`${mushafDir}mushaf_layout.db`),
+            getInfoAsync(`${mushafDir}fonts/pages/p1.ttf`)
+        ]);
+        return dbInfo.exists && fontInfo.exists;
+    }
+
+    /**
+     * Progression des téléchargements en pause, pour les afficher au lancement
+     */
+    async getPausedDownload(mushafId: number): Promise<DownloadProgress | null> {
+        if (this.progressCallbacks.has(mushafId)) {
+            return null;
+        }
+        const checkpoint = await this.loadCheckpoint(mushafId);
+        if (!checkpoint) {
+            return null;
+        }
+
+        return {
+            mushaf_id: mushafId,
+            status: 'paused',
+            progress: checkpoint.progress,
+            downloaded_bytes: 0,
+            total_bytes: 0,
+            speed_mbps: 0,
+            eta_seconds: 0,
+            current_step: 'En pause'
+        };
+    }
+
+    /**
+     * Télécharge un fichier depuis son URL principale puis ses miroirs, avec
+     * plusieurs tentatives par URL, et vérifie son SHA-256
+     */
+    private async downloadArtifact(
+        mushaf: Mushaf,
+        step: DownloadStep,
+        checkpoint: DownloadCheckpoint,
+        progress: DownloadProgress,
+        onProgress: (progress: DownloadProgress) => void
+    ): Promise<void> {
+        const urls = [mushaf.download_urls[step.key], ...(mushaf.mirror_urls?.[step.key] ?? [])];
+        const fileName = step.filePath.split('/').pop();
+
+        // La reprise n'est valable que pour le fichier et l'URL qui étaient en cours
+        const resuming = checkpoint.currentStep === step.key && checkpoint.currentUrl !== undefined;
+        let resumeData = resuming ? checkpoint.pauseState?.resumeData : undefined;
+        const firstUrl = resuming ? Math.max(0, urls.indexOf(checkpoint.currentUrl!)) : 0;
+
+        let lastError: Error | null = null;
+        for (const url of urls.slice(firstUrl)) {
+            for (let attempt = 0; attempt <= DOWNLOAD_RETRIES; attempt++) {
+                if (attempt > 0) {
+                    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+                    progress.current_step = `Nouvelle tentative dans ${Math.round(delay / 1000)} s...`;
+                    progress.speed_mbps = 0;
+                    onProgress(progress);
+                    await this.waitBeforeRetry(mushaf.id, delay);
+                }
+                this.throwIfInterrupted(mushaf.id);
+
+                try {
+                    await this.downloadStep(mushaf.id, step, url, checkpoint, resumeData, progress, onProgress);
+                } catch (error) {
+                    if (error instanceof DownloadInterruptedError) {
+                        throw error;
+                    }
+                    lastError = error as Error;
+                    resumeData = undefined;
+                    console.warn(`Tentative ${attempt + 1} échouée pour ${fileName}:`, lastError.message);
+                    if (error instanceof HttpStatusError && !error.retryable) {
+                        break; // Absent de ce serveur, inutile d'insister
+                    }
+                    continue;
+                }
+
+                // Vérifier le SHA-256 avant extraction: un fichier corrompu sur ce serveur le restera
+                const checksumError = await this.checkArtifactChecksum(mushaf, step, progress, onProgress);
+                if (!checksumError) {
+                    return;
+                }
+                lastError = new Error(checksumError);
+                console.warn(checksumError);
+                await deleteAsync(step.filePath, { idempotent: true });
+                break;
+            }
+        }
+
+        // Le prochain essai repart de l'URL principale
+        checkpoint.currentStep = undefined;
+        checkpoint.currentUrl = undefined;
+        checkpoint.pauseState = undefined;
+        await this.saveCheckpoint(mushaf.id, checkpoint);
+        await deleteAsync(step.filePath, { idempotent: true });
+
+        throw new ArtifactDownloadError(`${fileName} indisponible: ${lastError?.message}`);
+    }
+
+    /**
+     * Attente avant une nouvelle tentative, interrompue par une pause ou une annulation
+     */
+    private async waitBeforeRetry(mushafId: number, delayMs: number): Promise<void> {
+        const until = Date.now() + delayMs;
+        while (Date.now() < until && !this.interruptions.has(mushafId)) {
+            await new Promise(resolve => setTimeout(resolve, Math.min(500, until - Date.now())));
+        }
+        this.throwIfInterrupted(mushafId);
+    }
+
+    private async downloadStep(
+        mushafId: number,
+        step: DownloadStep,
+        url: string,
+        checkpoint: DownloadCheckpoint,
+        resumeData: string | undefined,
+        progress: DownloadProgress,
+        onProgress: (progress: DownloadProgress) => void
+    ): Promise<void> {
+        progress.status = 'downloading';
+        progress.current_step = step.label;
+        onProgress(progress);
+
+        checkpoint.currentStep = step.key;
+        checkpoint.currentUrl = url;
+        checkpoint.pauseState = undefined;
+        await this.saveCheckpoint(mushafId, checkpoint);
+
+        const startTime = Date.now();
+        await this.downloadFile(
+            mushafId,
+            url,
+            step.filePath,
+            (downloadProgress) => {
+                const elapsed = (Date.now() - startTime) / 1000;
+                const bytesDownloaded = downloadProgress * progress.total_bytes * (step.weightPercent / 100);
+
+                progress.progress = step.startPercent + (downloadProgress * step.weightPercent);
+                progress.downloaded_bytes = (progress.progress / 100) * progress.total_bytes;
+                progress.speed_mbps = elapsed > 0 ? (bytesDownloaded / 1024 / 1024) / elapsed : 0;
+
+                const remainingBytes = progress.total_bytes - progress.downloaded_bytes;
+                progress.eta_seconds = progress.speed_mbps > 0
+                    ? Math.round(remainingBytes / (progress.speed_mbps * 1024 * 1024))
+                    : 0;
+
+                onProgress(progress);
+            },
+            resumeData
+        );
+    }
+
+    /**
+     * Compare le SHA-256 d'un fichier téléchargé à celui du catalogue.
+     * Retourne le message d'erreur en cas de différence ou d'empreinte absente, null sinon.
+     */
+    private async checkArtifactChecksum(
+        mushaf: Mushaf,
+        step: DownloadStep,
+        progress: DownloadProgress,
+        onProgress: (progress: DownloadProgress) => void
+    ): Promise<string | null> {
+        const expected = mushaf.checksums?.[step.key];
+        const fileName = step.filePath.split('/').pop();
+        if (!expected) {
+            // Un fichier non vérifiable n'est jamais installé
+            return `Aucune somme de contrôle pour ${fileName}`;
+        }
+
+        progress.status = 'verifying';
+        progress.current_step = `Vérification SHA-256 de ${fileName}...`;
+        onProgress(progress);
+
+        const actual = await sha256File(step.filePath);
+        if (actual === expected.toLowerCase()) {
+            return null;
+        }
+        return `Somme de contrôle invalide pour ${fileName}: attendu ${expected}, obtenu ${actual}`;
+    }
+
     /**
      * Télécharge un fichier avec gestion de la progression
      */
     private async downloadFile(
+        mushafId: number,
         url: string,
         filePath: string,
-        onProgress: (progress: number) => void
+        onProgress: (progress: number) => void,
+        resumeData?: string
     ): Promise<void> {
         const downloadResumable = createDownloadResumable(
             url,
@@ -181,14 +1264,56 @@ export class DownloadManager {
             (downloadProgress) => {
                 const progress = downloadProgress.totalBytesWritten / downloadProgress.totalBytesExpectedToWrite;
                 onProgress(progress);
-            }
+            },
+            resumeData
         );
 
-        const result = await downloadResumable.downloadAsync();
+        this.activeDownloads.set(mushafId, downloadResumable);
+        let result;
+        try {
+            // Pause demandée avant que la tâche ne soit enregistrée
+            this.throwIfInterrupted(mushafId);
+            result = await downloadResumable.downloadAsync();
+        } catch (error) {
+            // Une pause ou une annulation peut faire échouer la tâche en cours
+            this.throwIfInterrupted(mushafId);
+            throw error;
+        } finally {
+            this.activeDownloads.delete(mushafId);
+        }
+
+        // Pas de résultat: la tâche a été mise en pause ou annulée
+        this.throwIfInterrupted(mushafId);
 
-        if (!result || result.status !== 200) {
+        if (!result) {
             throw new Error(`Échec du téléchargement: ${url}`);
         }
+        // 206: reprise d'un téléchargement en pause
+        if (result.status !== 200 && result.status !== 206) {
+            // Le corps de la réponse d'erreur a été écrit à la place du fichier
+            await deleteAsync(filePath, { idempotent: true });
+            throw new HttpStatusError(url, result.status);
+        }
+    }
+
+    private throwIfInterrupted(mushafId: number): void {
+        const reason = this.interruptions.get(mushafId);
+        if (reason) {
+            throw new DownloadInterruptedError(reason);
+        }
+    }
+
+    private async loadCheckpoint(mushafId: number): Promise<DownloadCheckpoint | null> {
+        const saved = await AsyncStorage.getItem(`mushaf_${mushafId}_download`);
+        return saved ? JSON.parse(saved) : null;
+    }
+
+    private async saveCheckpoint(mushafId: number, checkpoint: DownloadCheckpoint): Promise<void> {
+        await AsyncStorage.setItem(`mushaf_${mushafId}_download`, JSON.stringify(checkpoint));
+    }
+
+    private async clearCheckpoint(mushafId: number): Promise<void> {
+        await AsyncStorage.removeItem(`mushaf_${mushafId}_download`);
     }
 
     /**
@@ -222,53 +1347,171 @@ export class DownloadManager {
         }
     }
 
+    /**
+     * Enregistre le SHA-256 de chaque police de page
+     */
+    private async saveFontChecksums(mushafDir: string, pagesCount: number): Promise<void> {
+        const checksums: Record<number, string> = {};
+        for (let page = 1; page <= pagesCount; page++) {
+            checksums[page] = await sha256File(`${mushafDir}fonts/pages/p${page}.ttf`);
+        }
+        await writeAsStringAsync(`${mushafDir}${FONT_CHECKSUMS_FILE}`, JSON.stringify(checksums));
+    }
+
+    /**
+     * Vérifie un Mushaf installé: fichiers critiques présents et polices de pages
+     * intactes. Sans empreintes (installation plus ancienne), seules les polices
+     * vides sont considérées comme corrompues.
+     */
+    async verifyInstallation(mushaf: Mushaf): Promise<InstallationReport> {
+        const mushafDir = await this.getMushafPath(mushaf.id) ?? `${documentDirectory}mushafs/${mushaf.id}/`;
+        const report: InstallationReport = {
+            mushaf_id: mushaf.id,
+            missing_files: [],
+            missing_pages: [],
+            corrupted_pages: []
+        };
+
+        for (const file of ['mushaf_layout.db', 'fonts/common/bismillah.ttf', 'fonts/common/surah_names.ttf']) {
+            if (!(await getInfoAsync(`${mushafDir}${file}`)).exists) {
+                report.missing_files.push(file);
+            }
+        }
+
+        const checksumsPath = `${mushafDir}${FONT_CHECKSUMS_FILE}`;
+        const checksums: Record<number, string> | null = (await getInfoAsync(checksumsPath)).exists
+            ? JSON.parse(await readAsStringAsync(checksumsPath))
+            : null;
+
+        for (let page = 1; page <= mushaf.pages_count; page++) {
+            const fontPath = `${mushafDir}fonts/pages/p${page}.ttf`;
+            const fontInfo = await getInfoAsync(fontPath);
+            if (!fontInfo.exists) {
+                report.missing_pages.push(page);
+            } else if (fontInfo.size === 0 || (checksums?.[page] && await sha256File(fontPath) !== checksums[page])) {
+                report.corrupted_pages.push(page);
+            }
+        }
+
+        return report;
+    }
+
     /**
      * VALIDATION CRITIQUE: Vérifie que chaque page a exactement 15 lignes
      */
     private async validate15LinesPerPage(dbPath: string, totalPages: number): Promise<void> {
         const db = await SQLite.openDatabaseAsync(dbPath);
 
-        // Vérifier pages 1 et 2 (doivent avoir 8 lignes)
-        for (const page of [1, 2]) {
-            const result = await db.getFirstAsync<{ count: number }>(
-                'SELECT COUNT(*) as count FROM page_lines WHERE page_number = ?',
-                [page]
-            );
+        // Fermée avant que le répertoire temporaire soit renommé
+        try {
+            // Vérifier pages 1 et 2 (doivent avoir 8 lignes)
+            for (const page of [1, 2]) {
+                const result = await db.getFirstAsync<{ count: number }>(
+                    'SELECT COUNT(*) as count FROM page_lines WHERE page_number = ?',
+                    [page]
+                );
 
-            if (result && result.count !== 8) {
-                throw new Error(`Page ${page} devrait avoir 8 lignes, mais a ${result.count} lignes`);
+                if (result && result.count !== 8) {
+                    throw new Error(`Page ${page} devrait avoir 8 lignes, mais a ${result.count} lignes`);
+                }
             }
-        }
-
-        // Vérifier pages 3-604 (doivent avoir exactement 15 lignes)
-        for (let page = 3; page <= totalPages; page++) {
-            const result = await db.getFirstAsync<{ count: number }>(
-                'SELECT COUNT(*) as count FROM page_lines WHERE page_number = ?',
-                [page]
-            );
 
-            if (result && result.count !== 15) {
-                throw new Error(
-                    `ERREUR CRITIQUE: Page ${page} devrait avoir 15 lignes, mais a ${result.count} lignes`
+            // Vérifier pages 3-604 (doivent avoir exactement 15 lignes)
+            for (let page = 3; page <= totalPages; page++) {
+                const result = await db.getFirstAsync<{ count: number }>(
+                    'SELECT COUNT(*) as count FROM page_lines WHERE page_number = ?',
+                    [page]
                 );
+
+                if (result && result.count !== 15) {
+                    throw new Error(
+                        `ERREUR CRITIQUE: Page ${page} devrait avoir 15 lignes, mais a ${result.count} lignes`
+                    );
+                }
             }
+        } finally {
+            await db.closeAsync();
         }
 
         console.log(`✅ Validation réussie: Toutes les pages respectent la règle des 15 lignes`);
     }
 
+    /**
+     * Espace nécessaire au pic de l'installation: les archives et les polices
+     * extraites coexistent jusqu'à la suppression des ZIP. Les fichiers déjà
+     * téléchargés d'un téléchargement en pause sont déduits.
+     */
+    async getRequiredSpace(mushaf: Mushaf): Promise<number> {
+        const sizes = mushaf.file_sizes ?? {
+            database_sqlite: 0,
+            common_fonts_zip: 0,
+            fonts_zip: mushaf.size_mb * 1024 * 1024
+        };
+        const checkpoint = await this.loadCheckpoint(mushaf.id);
+        const downloaded = (checkpoint?.completedSteps ?? []).reduce((sum, key) => sum + sizes[key], 0);
+
+        const peak = sizes.database_sqlite
+            + sizes.common_fonts_zip * EXTRACTION_RATIO
+            + sizes.fonts_zip * (1 + EXTRACTION_RATIO);
+        return Math.ceil(peak - downloaded) + FREE_SPACE_MARGIN_BYTES;
+    }
+
+    private async ensureFreeSpace(requiredBytes: number): Promise<void> {
+        const available = await getFreeDiskStorageAsync();
+        if (available < requiredBytes) {
+            throw new InsufficientStorageError(requiredBytes, available);
+        }
+    }
+
+    /**
+     * Répertoires temporaires (.staging, .old) hors téléchargements en cours
+     */
+    async getTemporaryDirectories(): Promise<TemporaryDirectory[]> {
+        const mushafsDir = `${documentDirectory}mushafs/`;
+        if (!(await getInfoAsync(mushafsDir)).exists) {
+            return [];
+        }
+
+        const directories: TemporaryDirectory[] = [];
+        for (const name of await readDirectoryAsync(mushafsDir)) {
+            const match = name.match(/^(\d+)\.(staging|old)$/);
+            if (!match || this.progressCallbacks.has(Number(match[1]))) {
+                continue;
+            }
+            const mushafId = Number(match[1]);
+            directories.push({
+                mushaf_id: mushafId,
+                path: `${mushafsDir}${name}/`,
+                kind: match[2] === 'staging' ? 'staging' : 'backup',
+                is_paused: match[2] === 'staging' && (await this.loadCheckpoint(mushafId)) !== null
+            });
+        }
+        return directories;
+    }
+
+    /**
+     * Supprime un répertoire temporaire, en annulant le téléchargement en pause qui l'utilise
+     */
+    async deleteTemporaryDirectory(directory: TemporaryDirectory): Promise<void> {
+        if (directory.is_paused) {
+            await this.cancelDownload(directory.mushaf_id);
+            return;
+        }
+        await deleteAsync(directory.path, { idempotent: true });
+    }
+
     /**
      * Supprime un Mushaf installé
      */
     async deleteMushaf(mushafId: number): Promise<void> {
         const mushafDir = `${documentDirectory}mushafs/${mushafId}/`;
+        await closeLayoutDatabase(mushafDir);
+        clearPreparedPages(mushafId);
+        forgetPageDataSource(mushafId);
         await deleteAsync(mushafDir, { idempotent: true });
 
-        const mainDb = await SQLite.openDatabaseAsync('mushaf_library.db');
-        await mainDb.runAsync('DELETE FROM installed_mushafs WHERE id = ?', [mushafId]);
-
-        await AsyncStorage.removeItem(`mushaf_${mushafId}_installed`);
-        await AsyncStorage.removeItem(`mushaf_${mushafId}_path`);
+        const mainDb = await getMainDatabase();
+        await deleteInstalledMushaf(mainDb, mushafId);
     }
 
     /**
@@ -286,15 +1529,16 @@ export class DownloadManager {
      * Vérifie si un Mushaf est installé
      */
     async isInstalled(mushafId: number): Promise<boolean> {
-        const installed = await AsyncStorage.getItem(`mushaf_${mushafId}_installed`);
-        return installed === 'true';
+        const mainDb = await getMainDatabase();
+        return (await getInstalledMushaf(mainDb, mushafId)) !== null;
     }
 
     /**
      * Récupère le chemin local d'un Mushaf
      */
     async getMushafPath(mushafId: number): Promise<string | null> {
-        return await AsyncStorage.getItem(`mushaf_${mushafId}_path`);
+        const mainDb = await getMainDatabase();
+        return (await getInstalledMushaf(mainDb, mushafId))?.local_path ?? null;
     }
 }
 
@@ -0,0 +1,74 @@
+// src/services/FixturePageDataSource.ts
+// In-memory page data source, for running the reader without network or installed package
+import { processPageData, APIPageResponse, APISurah, ProcessedPage } from './QuranAPI';
+import { CommonFonts, PageDataSource, SourceVerse } from './PageDataSource';
+import { DivisionStart, RUB_START_VERSE_KEYS } from './QuranDivisions';
+
+export interface PageFixtures {
+    pages: Record<number, APIPageResponse>;
+    surahs: APISurah[];
+    totalPages?: number;
+    mushafId?: number;
+}
+
+export class FixturePageDataSource implements PageDataSource {
+    readonly mushafId: number;
+    readonly totalPages: number;
+    readonly supportsFontVersions = false;
+
+    constructor(private readonly fixtures: PageFixtures) {
+        this.mushafId = fixtures.mushafId ?? -1;
+        this.totalPages = fixtures.totalPages ?? 604;
+    }
+
+    async getPage(pageNumber: number): Promise<ProcessedPage> {
+        const pageData = this.fixtures.pages[pageNumber];
+        if (!pageData) {
+            throw new Error(`No fixture for page ${pageNumber}`);
+        }
+        return processPageData(pageData, pageNumber, this.fixtures.surahs);
+    }
+
+    // Fixtures carry Unicode text as glyph codes, rendered with a system Arabic font
+    async getPageFont(): Promise<null> {
+        return null;
+    }
+
+    async getCommonFonts(): Promise<CommonFonts> {
+        return { surahNames: null, bismillah: null };
+    }
+
+    async getSurahs(): Promise<APISurah[]> {
+        return this.fixtures.surahs;
+    }
+
+    async getVerse(verseKey: string): Promise<SourceVerse> {
+        for (const page of Object.values(this.fixtures.pages)) {
+            const verse = page.verses.find(v => v.verse_key === verseKey);
+            if (verse) {
+                return verse;
+            }
+        }
+        throw new Error(`No fixture for verse ${verseKey}`);
+    }
+
+    // Only the rub' starting on a fixture page
+    async getDivisionStarts(): Promise<DivisionStart[]> {
+        const starts: DivisionStart[] = [];
+        for (const [index, verseKey] of RUB_START_VERSE_KEYS.entries()) {
+            const verse = await this.getVerse(verseKey).catch(() => null);
+            if (verse) {
+                const rub = index + 1;
+                starts.push({
+                    rub,
+                    hizb: Math.ceil(rub / 4),
+                    juz: Math.ceil(rub / 8),
+                    verse_key: verseKey,
+                    page_number: verse.page_number,
+                    text: verse.words.filter(w => w.char_type_name === 'word').map(w => w.text).join(' ')
+                });
+            }
+        }
+        return starts;
+    }
+}
@@ -0,0 +1,166 @@
+// src/services/HttpClient.ts
+// Shared JSON client for the quran.com API: timeouts, retries with jitter,
+// Retry-After on 429, de-duplication of concurrent requests and typed errors
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+// A Retry-After beyond this is treated as a server error rather than waited for
+const MAX_RETRY_AFTER_MS = 60000;
+
+export interface RequestOptions {
+    timeoutMs?: number;
+    retries?: number;
+}
+
+export class HttpError extends Error {
+    constructor(message: string, readonly url: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/** No network, or no answer before the timeout */
+export class OfflineError extends HttpError {
+    constructor(url: string, readonly timedOut: boolean) {
+        super(timedOut ? `Request timed out: ${url}` : `Network request failed: ${url}`, url);
+    }
+}
+
+export class NotFoundError extends HttpError {
+    constructor(url: string) {
+        super(`Not found (HTTP 404): ${url}`, url);
+    }
+}
+
+/** 5xx, 429 and any other unexpected status */
+export class ServerError extends HttpError {
+    constructor(url: string, readonly status: number) {
+        super(`Server error (HTTP ${status}): ${url}`, url);
+    }
+}
+
+/** The response body is not the JSON we expected */
+export class ParseError extends HttpError {
+    constructor(url: string, detail: string) {
+        super(`Invalid response from ${url}: ${detail}`, url);
+    }
+}
+
+// Requests in flight, so that identical concurrent calls share one response
+const inFlight = new Map<string, Promise<unknown>>();
+
+function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Full jitter: a random delay up to the exponential bound, so that clients
+ * failing together don't retry together
+ */
+function backoffDelay(attempt: number): number {
+    return Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+}
+
+/**
+ * Retry-After in seconds or as an HTTP date, null when missing or invalid
+ */
+function parseRetryAfter(header: string | null): number | null {
+    if (!header) {
+        return null;
+    }
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Settles with the promise, or rejects once the signal aborts: a body read
+ * is not cancelled by every fetch implementation
+ */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise((resolve, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('Aborted')), { once: true });
+        promise.then(resolve, reject);
+    });
+}
+
+/**
+ * GETs a URL and reads the body of a successful response. The timeout covers
+ * both, a stalled body would otherwise keep the request in flight forever.
+ */
+async function fetchWithTimeout(url: string, timeoutMs: number): Promise<{ response: Response; body: string | null }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+        const response = await fetch(url, { signal: controller.signal });
+        const body = response.ok ? await untilAborted(response.text(), controller.signal) : null;
+        return { response, body };
+    } catch {
+        throw new OfflineError(url, controller.signal.aborted);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+async function requestJson<T>(url: string, options: RequestOptions): Promise<T> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const retries = options.retries ?? DEFAULT_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+        let delay: number;
+
+        try {
+            const { response, body } = await fetchWithTimeout(url, timeoutMs);
+
+            if (body !== null) {
+                try {
+                    return JSON.parse(body) as T;
+                } catch (error) {
+                    throw new ParseError(url, (error as Error).message);
+                }
+            }
+
+            if (response.status === 404) {
+                throw new NotFoundError(url);
+            }
+            if (response.status === 429) {
+                const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+                if (attempt >= retries || (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS)) {
+                    throw new ServerError(url, response.status);
+                }
+                delay = retryAfter ?? backoffDelay(attempt);
+            } else if (response.status >= 500 && attempt < retries) {
+                delay = backoffDelay(attempt);
+            } else {
+                throw new ServerError(url, response.status);
+            }
+        } catch (error) {
+            if (!(error instanceof OfflineError) || attempt >= retries) {
+                throw error;
+            }
+            delay = backoffDelay(attempt);
+        }
+
+        await wait(delay);
+    }
+}
+
+/**
+ * GETs a JSON document. Concurrent calls for the same URL share the request.
+ * Throws OfflineError, NotFoundError, ServerError or ParseError.
+ */
+export function getJson<T>(url: string, options: RequestOptions = {}): Promise<T> {
+    const pending = inFlight.get(url);
+    if (pending) {
+        return pending as Promise<T>;
+    }
+
+    const request = requestJson<T>(url, options).finally(() => inFlight.delete(url));
+    inFlight.set(url, request);
+    return request;
+}
@@ -0,0 +1,223 @@
+// src/services/KhatmPlanner.ts
+// Splits a full reading of the Mushaf into daily portions and follows it with the reading history
+import {
+    getMainDatabase,
+    createKhatmPlan,
+    getActiveKhatmPlan,
+    setKhatmPlanStatus,
+    getKhatmPortions,
+    replaceKhatmPortions,
+    getPagesReadSince
+} from '../database/schema';
+import { KhatmPlan, KhatmPortion } from '../types';
+import { resolvePageDataSource } from './PageDataSource';
+import { addDays, fromDateKey, loadJuzStartPages, toDateKey } from './ReadingStats';
+
+const RAMADAN_MONTH = 9;
+const RAMADAN_SEARCH_DAYS = 400;
+
+export type DailyPortion = Omit<KhatmPortion, 'plan_id'>;
+
+export interface KhatmStatus {
+    plan: KhatmPlan;
+    state: 'upcoming' | 'active' | 'overdue' | 'completed';
+    nextPage: number; // First page of the Mushaf not read since the plan started
+    pagesRead: number;
+    todayPortion: DailyPortion | null;
+    upcomingPortions: DailyPortion[]; // From tomorrow
+}
+
+/**
+ * Number of days from one day key to another, both included
+ */
+export function countDays(fromDate: string, toDate: string): number {
+    return Math.round((fromDateKey(toDate).getTime() - fromDateKey(fromDate).getTime()) / 86400000) + 1;
+}
+
+/**
+ * Spreads pages over days as evenly as possible. With juz alignment, each
+ * portion ends on the juz boundary closest to its even share, unless that
+ * would leave the day empty.
+ */
+export function planPortions(
+    firstPage: number,
+    lastPage: number,
+    fromDate: string,
+    days: number,
+    alignment: KhatmPlan['alignment'],
+    juzStartPages: number[]
+): DailyPortion[] {
+    const totalPages = lastPage - firstPage + 1;
+    const juzEnds = juzStartPages.slice(1).map(page => page - 1);
+    const portions: DailyPortion[] = [];
+
+    let startPage = firstPage;
+    for (let day = 0; day < days && startPage <= lastPage; day++) {
+        let endPage = day === days - 1
+            ? lastPage
+            : firstPage - 1 + Math.round((totalPages * (day + 1)) / days);
+
+        if (alignment === 'juz' && day < days - 1) {
+            const target = endPage;
+            const closest = juzEnds
+                .filter(end => end >= startPage && end <= lastPage)
+                .sort((a, b) => Math.abs(a - target) - Math.abs(b - target))[0];
+            if (closest !== undefined) {
+                endPage = closest;
+            }
+        }
+
+        endPage = Math.min(Math.max(endPage, startPage), lastPage);
+        portions.push({
+            day_date: toDateKey(addDays(fromDateKey(fromDate), day)),
+            start_page: startPage,
+            end_page: endPage
+        });
+        startPage = endPage + 1;
+    }
+
+    return portions;
+}
+
+/**
+ * Islamic month of a date with the Umm al-Qura calendar, null when the
+ * JS engine has no support for it
+ */
+function getIslamicMonth(date: Date): number | null {
+    try {
+        const month = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura', { month: 'numeric' })
+            .formatToParts(date)
+            .find(part => part.type === 'month')?.value;
+        return month ? parseInt(month, 10) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The current or next Ramadan as day keys. When already in Ramadan, the plan
+ * starts today.
+ */
+export function getRamadanRange(today: Date = new Date()): { startDate: string; endDate: string } | null {
+    let start: Date | null = null;
+
+    for (let offset = 0; offset < RAMADAN_SEARCH_DAYS; offset++) {
+        const date = addDays(today, offset);
+        const month = getIslamicMonth(date);
+        if (month === null) {
+            return null;
+        }
+        if (month === RAMADAN_MONTH && !start) {
+            start = date;
+        } else if (month !== RAMADAN_MONTH && start) {
+            return { startDate: toDateKey(start), endDate: toDateKey(addDays(date, -1)) };
+        }
+    }
+
+    return null;
+}
+
+async function computePortions(
+    plan: Pick<KhatmPlan, 'mushaf_id' | 'total_pages' | 'alignment'>,
+    firstPage: number,
+    fromDate: string,
+    days: number
+): Promise<DailyPortion[]> {
+    const juzStartPages = plan.alignment === 'juz'
+        ? await loadJuzStartPages(await resolvePageDataSource(plan.mushaf_id))
+        : [];
+    return planPortions(firstPage, plan.total_pages, fromDate, days, plan.alignment, juzStartPages);
+}
+
+/**
+ * Starts a new plan, replacing the active one
+ */
+export async function startKhatmPlan(
+    mushafId: number,
+    totalPages: number,
+    startDate: string,
+    endDate: string,
+    alignment: KhatmPlan['alignment']
+): Promise<void> {
+    const days = countDays(startDate, endDate);
+    if (days < 1) {
+        throw new Error('تاريخ النهاية يجب أن يكون بعد تاريخ البداية');
+    }
+
+    const db = await getMainDatabase();
+    const activePlan = await getActiveKhatmPlan(db);
+    if (activePlan) {
+        await setKhatmPlanStatus(db, activePlan.id, 'abandoned');
+    }
+
+    const plan = {
+        mushaf_id: mushafId,
+        total_pages: totalPages,
+        start_date: startDate,
+        end_date: endDate,
+        alignment
+    };
+    const planId = await createKhatmPlan(db, plan);
+    await replaceKhatmPortions(db, planId, startDate, await computePortions(plan, 1, startDate, days));
+}
+
+export async function abandonKhatmPlan(planId: number): Promise<void> {
+    const db = await getMainDatabase();
+    await setKhatmPlanStatus(db, planId, 'abandoned');
+}
+
+/**
+ * Progress of the active plan. When the reader is behind today's portion
+ * (missed days), the remaining pages are spread again from today to the end date.
+ */
+export async function getKhatmStatus(today: Date = new Date()): Promise<KhatmStatus | null> {
+    const db = await getMainDatabase();
+    const plan = await getActiveKhatmPlan(db);
+    if (!plan) {
+        return null;
+    }
+
+    const todayKey = toDateKey(today);
+    // Sessions are stored with UTC timestamps, the plan starts at local midnight
+    const planStart = new Date(`${plan.start_date}T00:00:00`).toISOString();
+    const readPages = new Set(await getPagesReadSince(db, plan.mushaf_id, planStart));
+
+    let nextPage = 1;
+    while (nextPage <= plan.total_pages && readPages.has(nextPage)) {
+        nextPage++;
+    }
+    const pagesRead = Array.from(readPages).filter(page => page <= plan.total_pages).length;
+
+    if (nextPage > plan.total_pages) {
+        await setKhatmPlanStatus(db, plan.id, 'completed');
+        return {
+            plan: { ...plan, status: 'completed' },
+            state: 'completed',
+            nextPage,
+            pagesRead,
+            todayPortion: null,
+            upcomingPortions: []
+        };
+    }
+
+    let portions = await getKhatmPortions(db, plan.id);
+
+    if (todayKey >= plan.start_date) {
+        const todayPortion = portions.find(portion => portion.day_date === todayKey);
+        if (!todayPortion || nextPage < todayPortion.start_page) {
+            // Past the end date, everything left becomes today's portion
+            const days = Math.max(1, countDays(todayKey, plan.end_date));
+            await replaceKhatmPortions(db, plan.id, todayKey, await computePortions(plan, nextPage, todayKey, days));
+            portions = await getKhatmPortions(db, plan.id);
+        }
+    }
+
+    return {
+        plan,
+        state: todayKey < plan.start_date ? 'upcoming' : todayKey > plan.end_date ? 'overdue' : 'active',
+        nextPage,
+        pagesRead,
+        todayPortion: portions.find(portion => portion.day_date === todayKey) ?? null,
+        upcomingPortions: portions.filter(portion => portion.day_date > todayKey)
+    };
+}
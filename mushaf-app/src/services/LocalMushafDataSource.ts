@@ -0,0 +1,239 @@
+// src/services/LocalMushafDataSource.ts
+// Page data source backed by an installed Mushaf package (mushaf_layout.db + page fonts)
+import { readAsStringAsync, EncodingType } from 'expo-file-system/legacy';
+import * as SQLite from 'expo-sqlite';
+import {
+    getMushafDatabase,
+    getPageLines,
+    getPageWords,
+    getVerseWords,
+    getVersesWords,
+    getLayoutSurahs
+} from '../database/schema';
+import { Mushaf, Word } from '../types';
+import { APISurah, APIWord, PageLine, ProcessedPage } from './QuranAPI';
+import { CommonFonts, PageDataSource, PageFont, SourceVerse } from './PageDataSource';
+import { DivisionStart, findDivisionForVerse, RUB_START_VERSE_KEYS } from './QuranDivisions';
+
+// One connection per installed Mushaf, reused across page turns
+const openDatabases = new Map<string, Promise<SQLite.SQLiteDatabase>>();
+
+async function readFontAsDataUri(fontPath: string): Promise<string> {
+    const base64 = await readAsStringAsync(fontPath, { encoding: EncodingType.Base64 });
+    return `data:font/ttf;base64,${base64}`;
+}
+
+function getLayoutDatabase(mushafPath: string): Promise<SQLite.SQLiteDatabase> {
+    let db = openDatabases.get(mushafPath);
+    if (!db) {
+        db = getMushafDatabase(mushafPath);
+        // Don't keep a failed open around, the package may be installed later
+        db.catch(() => openDatabases.delete(mushafPath));
+        openDatabases.set(mushafPath, db);
+    }
+    return db;
+}
+
+/**
+ * Closes the connection to a layout DB before its package is replaced.
+ * The next query opens the new file.
+ */
+export async function closeLayoutDatabase(mushafPath: string): Promise<void> {
+    const db = openDatabases.get(mushafPath);
+    openDatabases.delete(mushafPath);
+    await db?.then(connection => connection.closeAsync()).catch(() => undefined);
+}
+
+/**
+ * Returns the glyph code of a word for the given Mushaf font set
+ */
+function getGlyphCode(word: Word, code: Mushaf['code']): string {
+    switch (code) {
+        case 'qpc_v1':
+            return word.qpc_v1 ?? word.text_uthmani;
+        case 'qpc_v2':
+            return word.qpc_v2 ?? word.text_uthmani;
+        case 'indopak_15':
+            return word.indopak_nastaleeq_15 ?? word.text_uthmani;
+        default:
+            return word.text_uthmani;
+    }
+}
+
+/**
+ * Converts a layout DB word to the shape used by the renderer
+ */
+function toAPIWord(word: Word, code: Mushaf['code']): APIWord {
+    const glyphCode = getGlyphCode(word, code);
+
+    return {
+        id: word.id,
+        position: parseInt(word.location.split(':')[2], 10),
+        audio_url: null,
+        char_type_name: word.char_type,
+        code_v1: glyphCode,
+        code_v2: glyphCode,
+        page_number: word.page_number,
+        line_number: word.line_number,
+        text: word.text_uthmani,
+        text_uthmani: word.text_uthmani,
+        verse_key: word.verse_key
+    };
+}
+
+export class LocalMushafDataSource implements PageDataSource {
+    // The embedded font always matches the installed glyph set
+    readonly supportsFontVersions = false;
+
+    private commonFonts: Promise<CommonFonts> | null = null;
+    private divisionStarts: Promise<DivisionStart[]> | null = null;
+
+    constructor(
+        readonly mushafId: number,
+        private readonly mushafPath: string,
+        private readonly code: Mushaf['code'],
+        readonly totalPages: number
+    ) {}
+
+    async getPage(pageNumber: number): Promise<ProcessedPage> {
+        const db = await getLayoutDatabase(this.mushafPath);
+        const [pageLines, words] = await Promise.all([
+            getPageLines(db, pageNumber),
+            getPageWords(db, pageNumber)
+        ]);
+
+        if (pageLines.length === 0) {
+            throw new Error(`Page ${pageNumber} introuvable dans ${this.mushafPath}`);
+        }
+
+        // Divisions aren't stored in the layout DB, they're matched by verse key
+        const divisionStarts = await this.getDivisionStarts().catch(() => null);
+        const rubByVerseKey = new Map(divisionStarts?.map(start => [start.verse_key, start.rub]));
+
+        const lines: PageLine[] = pageLines.map((pageLine) => {
+            const lineWords = pageLine.first_word_id !== null && pageLine.last_word_id !== null
+                ? words.filter(w => w.id >= pageLine.first_word_id! && w.id <= pageLine.last_word_id!)
+                : [];
+
+            const rubStartWord = lineWords.find(w => w.location.endsWith(':1') && rubByVerseKey.has(w.verse_key));
+
+            return {
+                lineNumber: pageLine.line_number,
+                words: lineWords.map(w => toAPIWord(w, this.code)),
+                isCentered: pageLine.is_centered,
+                lineType: pageLine.line_type,
+                surahNumber: pageLine.surah_number ?? undefined,
+                surahNameArabic: pageLine.surah_name_arabic,
+                rubStart: rubStartWord ? rubByVerseKey.get(rubStartWord.verse_key) : undefined
+            };
+        });
+
+        const division = divisionStarts && words.length > 0
+            ? findDivisionForVerse(divisionStarts, words[0].verse_key)
+            : null;
+
+        return {
+            pageNumber,
+            lines,
+            totalLines: lines.length,
+            firstVerseKey: words[0]?.verse_key,
+            division: division ? { juz: division.juz, hizb: division.hizb, rub: division.rub } : undefined
+        };
+    }
+
+    /**
+     * The 240 rub' starts located in this Mushaf, read once from the layout DB
+     */
+    getDivisionStarts(): Promise<DivisionStart[]> {
+        if (!this.divisionStarts) {
+            this.divisionStarts = getLayoutDatabase(this.mushafPath)
+                .then(db => getVersesWords(db, RUB_START_VERSE_KEYS))
+                .then(words => RUB_START_VERSE_KEYS.map((verseKey, index) =>
+                    this.toDivisionStart(index + 1, verseKey, words)));
+            this.divisionStarts.catch(() => { this.divisionStarts = null; });
+        }
+        return this.divisionStarts;
+    }
+
+    private toDivisionStart(rub: number, verseKey: string, words: Word[]): DivisionStart {
+        const verseWords = words.filter(w => w.verse_key === verseKey);
+        if (verseWords.length === 0) {
+            throw new Error(`Verset ${verseKey} introuvable dans ${this.mushafPath}`);
+        }
+        return {
+            rub,
+            hizb: Math.ceil(rub / 4),
+            juz: Math.ceil(rub / 8),
+            verse_key: verseKey,
+            page_number: verseWords[0].page_number,
+            text: verseWords.filter(w => w.char_type === 'word').map(w => w.text_uthmani).join(' ')
+        };
+    }
+
+    /**
+     * Reads the page font p{n}.ttf as a data URI, so it can be embedded
+     * in the WebView HTML without network access
+     */
+    async getPageFont(pageNumber: number): Promise<PageFont> {
+        return {
+            family: `MUSHAF_P${pageNumber}`,
+            src: await readFontAsDataUri(`${this.mushafPath}fonts/pages/p${pageNumber}.ttf`),
+            format: 'truetype'
+        };
+    }
+
+    /**
+     * Reads fonts/common/surah_names.ttf and bismillah.ttf once per Mushaf
+     */
+    getCommonFonts(): Promise<CommonFonts> {
+        if (!this.commonFonts) {
+            const commonDir = `${this.mushafPath}fonts/common/`;
+            this.commonFonts = Promise.all([
+                readFontAsDataUri(`${commonDir}surah_names.ttf`),
+                readFontAsDataUri(`${commonDir}bismillah.ttf`)
+            ]).then(([surahNames, bismillah]): CommonFonts => ({
+                surahNames: { family: 'MUSHAF_SURAH_NAMES', src: surahNames, format: 'truetype' },
+                bismillah: { family: 'MUSHAF_BISMILLAH', src: bismillah, format: 'truetype' }
+            }));
+            this.commonFonts.catch(() => { this.commonFonts = null; });
+        }
+        return this.commonFonts;
+    }
+
+    async getSurahs(): Promise<APISurah[]> {
+        const db = await getLayoutDatabase(this.mushafPath);
+        const surahs = await getLayoutSurahs(db);
+
+        return surahs.map(surah => ({
+            id: surah.id,
+            revelation_place: surah.revelation_place.toLowerCase(),
+            revelation_order: 0, // Non stocké dans mushaf_layout.db
+            bismillah_pre: surah.id !== 1 && surah.id !== 9,
+            name_simple: surah.name_transliteration,
+            name_complex: surah.name_transliteration,
+            name_arabic: surah.name_arabic,
+            verses_count: surah.verses_count,
+            pages: [surah.first_page, surah.last_page],
+            translated_name: {
+                language_name: 'english',
+                name: surah.name_translation
+            }
+        }));
+    }
+
+    async getVerse(verseKey: string): Promise<SourceVerse> {
+        const db = await getLayoutDatabase(this.mushafPath);
+        const words = await getVerseWords(db, verseKey);
+
+        if (words.length === 0) {
+            throw new Error(`Verset ${verseKey} introuvable dans ${this.mushafPath}`);
+        }
+
+        return {
+            verse_key: verseKey,
+            verse_number: parseInt(verseKey.split(':')[1], 10),
+            page_number: words[0].page_number,
+            words: words.map(w => toAPIWord(w, this.code))
+        };
+    }
+}
@@ -0,0 +1,262 @@
+// src/services/MushafCatalog.ts
+// Catalog of downloadable Mushafs, loaded from a versioned remote manifest with the bundled list as fallback
+import Constants from 'expo-constants';
+import { getMainDatabase, getCacheEntry, setCacheEntry, InstalledMushafRow } from '../database/schema';
+import { AVAILABLE_MUSHAFS } from '../data/availableMushafs';
+import { getJson } from './HttpClient';
+import { Mushaf, MushafArtifact } from '../types';
+
+export const CATALOG_MANIFEST_URL = 'https://cdn.qul.tarteel.ai/mushafs/catalog.json';
+
+// Manifests with another schema version are rejected and the cached one is kept
+const MANIFEST_SCHEMA_VERSION = 1;
+const CACHE_KEY = 'catalog:manifest';
+const ARTIFACTS: MushafArtifact[] = ['database_sqlite', 'fonts_zip', 'common_fonts_zip'];
+const MUSHAF_CODES: Mushaf['code'][] = ['qpc_v1', 'qpc_v2', 'indopak_15', 'digitalkhatt', 'warsh'];
+
+export interface ManifestFile {
+    url: string;
+    size_bytes: number;
+    sha256: string;
+    mirrors?: string[];
+}
+
+export interface ManifestEntry {
+    id: number;
+    version: number;
+    name: string;
+    code: Mushaf['code'];
+    description: string;
+    pages_count: Mushaf['pages_count'];
+    lines_per_page: Mushaf['lines_per_page'];
+    narration: Mushaf['narration'];
+    features: string[];
+    preview_images: string[];
+    min_app_version?: string;
+    files: Record<MushafArtifact, ManifestFile>;
+}
+
+export interface CatalogManifest {
+    schema_version: number;
+    catalog_version: number;
+    published_at: string;
+    mushafs: ManifestEntry[];
+}
+
+export interface CatalogRefresh {
+    mushafs: Mushaf[];
+    newMushafIds: number[];
+    updatedMushafIds: number[]; // Entries whose version increased since the previous catalog
+}
+
+/**
+ * Checks a parsed manifest and lists every problem with its path,
+ * e.g. "mushafs[2].files.fonts_zip.sha256"
+ */
+export function validateManifest(data: unknown): CatalogManifest {
+    const errors: string[] = [];
+    const expect = (ok: boolean, path: string, expected: string) => {
+        if (!ok) {
+            errors.push(`${path}: ${expected} attendu`);
+        }
+        return ok;
+    };
+    const object = (value: unknown, path: string): value is Record<string, unknown> =>
+        expect(typeof value === 'object' && value !== null && !Array.isArray(value), path, 'objet');
+    const array = (value: unknown, path: string): value is unknown[] =>
+        expect(Array.isArray(value), path, 'tableau');
+    const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+    const isPositiveInt = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+    if (!object(data, 'manifeste')) {
+        throw new Error(`Manifeste invalide:\n${errors.join('\n')}`);
+    }
+
+    expect(data.schema_version === MANIFEST_SCHEMA_VERSION, 'schema_version', `${MANIFEST_SCHEMA_VERSION}`);
+    expect(isPositiveInt(data.catalog_version), 'catalog_version', 'entier positif');
+    expect(isString(data.published_at), 'published_at', 'date ISO');
+
+    if (array(data.mushafs, 'mushafs')) {
+        const ids = new Set<number>();
+        data.mushafs.forEach((entry, index) => {
+            const path = `mushafs[${index}]`;
+            if (!object(entry, path)) {
+                return;
+            }
+
+            expect(isPositiveInt(entry.id) && !ids.has(entry.id), `${path}.id`, 'identifiant unique');
+            if (isPositiveInt(entry.id)) {
+                ids.add(entry.id);
+            }
+            expect(isPositiveInt(entry.version), `${path}.version`, 'entier positif');
+            expect(isString(entry.name), `${path}.name`, 'chaîne');
+            expect(MUSHAF_CODES.some(code => code === entry.code), `${path}.code`, MUSHAF_CODES.join(' | '));
+            expect(typeof entry.description === 'string', `${path}.description`, 'chaîne');
+            expect(entry.pages_count === 604 || entry.pages_count === 610, `${path}.pages_count`, '604 | 610');
+            expect(entry.lines_per_page === 15, `${path}.lines_per_page`, '15');
+            expect(entry.narration === 'Hafs' || entry.narration === 'Warsh', `${path}.narration`, 'Hafs | Warsh');
+            expect(Array.isArray(entry.features), `${path}.features`, 'tableau');
+            expect(Array.isArray(entry.preview_images), `${path}.preview_images`, 'tableau');
+            expect(
+                entry.min_app_version === undefined
+                    || (typeof entry.min_app_version === 'string' && /^\d+(\.\d+)*$/.test(entry.min_app_version)),
+                `${path}.min_app_version`,
+                'version "x.y.z"'
+            );
+
+            if (!object(entry.files, `${path}.files`)) {
+                return;
+            }
+            for (const artifact of ARTIFACTS) {
+                const filePath = `${path}.files.${artifact}`;
+                const file = entry.files[artifact];
+                if (!object(file, filePath)) {
+                    continue;
+                }
+                expect(isString(file.url) && file.url.startsWith('https://'), `${filePath}.url`, 'URL https');
+                expect(isPositiveInt(file.size_bytes), `${filePath}.size_bytes`, 'entier positif');
+                expect(typeof file.sha256 === 'string' && /^[0-9a-f]{64}$/i.test(file.sha256), `${filePath}.sha256`, 'SHA-256 hexadécimal');
+                expect(
+                    file.mirrors === undefined || (Array.isArray(file.mirrors) && file.mirrors.every(isString)),
+                    `${filePath}.mirrors`,
+                    'tableau d\'URL'
+                );
+            }
+        });
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Manifeste invalide:\n${errors.join('\n')}`);
+    }
+    return data as unknown as CatalogManifest;
+}
+
+function toMushaf(entry: ManifestEntry): Mushaf {
+    const perArtifact = (pick: (file: ManifestFile) => string | string[] | number) =>
+        Object.fromEntries(ARTIFACTS.map(artifact => [artifact, pick(entry.files[artifact])]));
+    const totalBytes = ARTIFACTS.reduce((sum, artifact) => sum + entry.files[artifact].size_bytes, 0);
+
+    return {
+        id: entry.id,
+        version: entry.version,
+        name: entry.name,
+        code: entry.code,
+        description: entry.description,
+        pages_count: entry.pages_count,
+        lines_per_page: entry.lines_per_page,
+        size_mb: Math.round(totalBytes / 1024 / 1024),
+        narration: entry.narration,
+        features: entry.features,
+        download_urls: perArtifact(file => file.url) as Mushaf['download_urls'],
+        mirror_urls: perArtifact(file => file.mirrors ?? []) as Mushaf['mirror_urls'],
+        checksums: perArtifact(file => file.sha256.toLowerCase()) as Mushaf['checksums'],
+        file_sizes: perArtifact(file => file.size_bytes) as Mushaf['file_sizes'],
+        min_app_version: entry.min_app_version,
+        preview_images: entry.preview_images,
+        checksum_sha256: entry.files.fonts_zip.sha256.toLowerCase(),
+        is_installed: false
+    };
+}
+
+/**
+ * Catalog-shaped entry for an installed Mushaf that left the catalog, so it
+ * can still be read, exported and deleted. It has nothing to download.
+ */
+export function fromInstalledRow(row: InstalledMushafRow): Mushaf {
+    const code = row.code as Mushaf['code'];
+    return {
+        id: row.id,
+        version: row.version,
+        name: row.name,
+        code,
+        description: '',
+        pages_count: row.pages_count as Mushaf['pages_count'],
+        lines_per_page: row.lines_per_page as Mushaf['lines_per_page'],
+        size_mb: 0,
+        narration: code === 'warsh' ? 'Warsh' : 'Hafs',
+        features: [],
+        download_urls: { fonts_zip: '', database_sqlite: '', common_fonts_zip: '' },
+        preview_images: [],
+        checksum_sha256: '',
+        is_installed: true,
+        installed_at: row.installed_at,
+        local_path: row.local_path
+    };
+}
+
+function compareVersions(a: string, b: string): number {
+    const partsA = a.split('.').map(Number);
+    const partsB = b.split('.').map(Number);
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+        if (diff !== 0) {
+            return diff;
+        }
+    }
+    return 0;
+}
+
+/**
+ * False when the catalog entry needs a newer release of the app
+ */
+export function isSupportedByApp(mushaf: Mushaf): boolean {
+    const appVersion = Constants.expoConfig?.version;
+    return !mushaf.min_app_version || !appVersion || compareVersions(appVersion, mushaf.min_app_version) >= 0;
+}
+
+async function loadCachedCatalog(): Promise<Mushaf[]> {
+    try {
+        const db = await getMainDatabase();
+        const entry = await getCacheEntry(db, CACHE_KEY);
+        if (entry) {
+            return validateManifest(JSON.parse(entry.payload)).mushafs.map(toMushaf);
+        }
+    } catch (error) {
+        console.warn('Catalogue en cache illisible, liste intégrée utilisée:', error);
+    }
+    return AVAILABLE_MUSHAFS;
+}
+
+let catalogPromise: Promise<Mushaf[]> | null = null;
+
+/**
+ * Current catalog: the last valid manifest, or the bundled list
+ */
+export function getCatalog(): Promise<Mushaf[]> {
+    if (!catalogPromise) {
+        catalogPromise = loadCachedCatalog();
+    }
+    return catalogPromise;
+}
+
+export async function findCatalogMushaf(mushafId: number | null): Promise<Mushaf | undefined> {
+    return (await getCatalog()).find(m => m.id === mushafId);
+}
+
+/**
+ * Downloads the manifest and caches it once validated. On failure the
+ * current catalog stays in use and the error is thrown.
+ */
+export async function refreshCatalog(): Promise<CatalogRefresh> {
+    const previous = await getCatalog();
+
+    // Shared client for the timeout, one retry is enough for a pull-to-refresh
+    const manifest = validateManifest(await getJson<unknown>(CATALOG_MANIFEST_URL, { retries: 1 }));
+    const mushafs = manifest.mushafs.map(toMushaf);
+
+    const db = await getMainDatabase();
+    await setCacheEntry(db, CACHE_KEY, manifest.catalog_version, JSON.stringify(manifest));
+    catalogPromise = Promise.resolve(mushafs);
+
+    const previousById = new Map(previous.map(m => [m.id, m]));
+    return {
+        mushafs,
+        newMushafIds: mushafs.filter(m => !previousById.has(m.id)).map(m => m.id),
+        updatedMushafIds: mushafs
+            .filter(m => {
+                const old = previousById.get(m.id);
+                return old !== undefined && m.version > old.version;
+            })
+            .map(m => m.id)
+    };
+}
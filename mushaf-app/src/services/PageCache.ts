@@ -0,0 +1,148 @@
+// src/services/PageCache.ts
+// Persistent cache of quran.com page responses (and the surah list) in mushaf_library.db,
+// so pages seen once keep working offline
+import {
+    getMainDatabase,
+    getCacheEntry,
+    setCacheEntry,
+    deleteCacheEntry,
+    getCacheUsage,
+    clearCacheEntries
+} from '../database/schema';
+import { fetchPageWithWords, fetchSurahs, APIPageResponse, APISurah } from './QuranAPI';
+import { validatePageResponse, validateSurahs } from './ApiSchema';
+
+// Bump when the requested word_fields, the payload shape or its validation change
+export const PAGE_CACHE_VERSION = 2;
+
+// Page content doesn't change, the TTL only bounds how long upstream fixes take to reach us
+export const PAGE_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const TOTAL_PAGES = 604;
+
+export const PAGE_CACHE_PREFIX = 'page:';
+const SURAHS_CACHE_KEY = 'chapters';
+
+function pageCacheKey(pageNumber: number): string {
+    return `${PAGE_CACHE_PREFIX}${pageNumber}`;
+}
+
+// Checks a cached payload like a fresh response, entries may predate the current checks
+type Validator<T> = (data: unknown) => T;
+
+/**
+ * Returns a cached response, even if expired, or null
+ */
+async function readCached<T>(
+    cacheKey: string,
+    validate?: Validator<T>
+): Promise<{ data: T; isFresh: boolean } | null> {
+    const db = await getMainDatabase();
+    const entry = await getCacheEntry(db, cacheKey);
+
+    if (!entry || entry.cache_version !== PAGE_CACHE_VERSION) {
+        return null;
+    }
+
+    let data: T;
+    try {
+        const payload: unknown = JSON.parse(entry.payload);
+        data = validate ? validate(payload) : payload as T;
+    } catch (error) {
+        // A corrupt or invalid entry is dropped and fetched again
+        console.log(`Evicting unreadable cache entry ${cacheKey}:`, error);
+        await deleteCacheEntry(db, cacheKey);
+        return null;
+    }
+
+    return {
+        data,
+        isFresh: Date.now() - entry.fetched_at < PAGE_CACHE_TTL_MS
+    };
+}
+
+async function fetchAndCache<T>(cacheKey: string, fetcher: () => Promise<T>): Promise<T> {
+    const data = await fetcher();
+    const db = await getMainDatabase();
+    await setCacheEntry(db, cacheKey, PAGE_CACHE_VERSION, JSON.stringify(data));
+    return data;
+}
+
+/**
+ * Cache-first loading: fresh cache, then network, then expired cache when offline
+ */
+export async function cachedFetch<T>(
+    cacheKey: string,
+    fetcher: () => Promise<T>,
+    validate?: Validator<T>
+): Promise<T> {
+    const cached = await readCached(cacheKey, validate);
+    if (cached?.isFresh) {
+        return cached.data;
+    }
+
+    try {
+        return await fetchAndCache(cacheKey, fetcher);
+    } catch (error) {
+        if (cached) {
+            console.log(`Serving expired cache for ${cacheKey}:`, error);
+            return cached.data;
+        }
+        throw error;
+    }
+}
+
+export function getPageResponse(pageNumber: number): Promise<APIPageResponse> {
+    return cachedFetch(pageCacheKey(pageNumber), () => fetchPageWithWords(pageNumber), validatePageResponse);
+}
+
+export function getSurahsResponse(): Promise<APISurah[]> {
+    return cachedFetch(SURAHS_CACHE_KEY, fetchSurahs, validateSurahs);
+}
+
+/**
+ * Walks all 604 pages and caches the ones missing or expired.
+ * Returns the number of pages that could not be fetched.
+ */
+export async function cacheEntireQuran(
+    onProgress: (cachedPages: number, totalPages: number) => void,
+    isCancelled: () => boolean = () => false
+): Promise<number> {
+    let failed = 0;
+
+    for (let page = 1; page <= TOTAL_PAGES; page++) {
+        if (isCancelled()) {
+            break;
+        }
+
+        const cached = await readCached(pageCacheKey(page), validatePageResponse);
+        if (!cached?.isFresh) {
+            try {
+                await fetchAndCache(pageCacheKey(page), () => fetchPageWithWords(page));
+            } catch (error) {
+                console.error(`Error caching page ${page}:`, error);
+                failed++;
+            }
+        }
+
+        onProgress(page, TOTAL_PAGES);
+    }
+
+    return failed;
+}
+
+/**
+ * Number of cached pages and the size of their payloads in bytes
+ */
+export async function getPageCacheUsage(): Promise<{ entries: number; bytes: number }> {
+    const db = await getMainDatabase();
+    return await getCacheUsage(db, PAGE_CACHE_PREFIX);
+}
+
+/**
+ * Drops every cached page, they are fetched again when read online
+ */
+export async function clearPageCache(): Promise<void> {
+    const db = await getMainDatabase();
+    await clearCacheEntries(db, PAGE_CACHE_PREFIX);
+}
@@ -0,0 +1,106 @@
+// src/services/PageDataSource.ts
+// Backend-agnostic access to Mushaf pages, so the reader can switch between
+// the quran.com API, an installed Mushaf package or in-memory fixtures
+import { APISurah, APIVerse, ProcessedPage } from './QuranAPI';
+import { DivisionStart } from './QuranDivisions';
+import { apiPageDataSource } from './ApiPageDataSource';
+import { LocalMushafDataSource } from './LocalMushafDataSource';
+import { FixturePageDataSource } from './FixturePageDataSource';
+import { FATIHA_FIXTURES } from '../data/fixtures';
+import { getMainDatabase, getInstalledMushaf } from '../database/schema';
+import { Mushaf } from '../types';
+
+export interface PageFont {
+    family: string;
+    src: string;
+    format: 'woff2' | 'truetype';
+}
+
+/** Fonts for surah headers, null to fall back to plain Arabic text */
+export interface CommonFonts {
+    surahNames: PageFont | null; // Ligatures "surah001" ... "surah114"
+    bismillah: PageFont | null;  // Glyph for U+FDFD
+}
+
+/**
+ * A verse as returned by every data source. Division numbers (juz, hizb...)
+ * are optional because installed layout DBs don't store them.
+ */
+export type SourceVerse = Pick<APIVerse, 'verse_key' | 'verse_number' | 'page_number' | 'words'>
+    & Partial<Pick<APIVerse, 'juz_number' | 'hizb_number' | 'rub_el_hizb_number' | 'manzil_number' | 'sajdah_number'>>;
+
+export interface PageDataSource {
+    /** mushaf_id under which bookmarks and reading history are recorded */
+    readonly mushafId: number;
+
+    /** Number of pages of the Mushaf served by this source (604 or 610) */
+    readonly totalPages: number;
+
+    /** Whether the reader can switch between QCF V1 and V2 glyphs */
+    readonly supportsFontVersions: boolean;
+
+    /** Loads a page organized by line (1-15, or 8 for pages 1-2) */
+    getPage(pageNumber: number): Promise<ProcessedPage>;
+
+    /** Font to embed for a page, or null to fall back to a system Arabic font */
+    getPageFont(pageNumber: number, fontVersion: 'v1' | 'v2'): Promise<PageFont | null>;
+
+    /** Fonts for surah_name and basmallah lines */
+    getCommonFonts(): Promise<CommonFonts>;
+
+    /** All 114 surahs with their page range */
+    getSurahs(): Promise<APISurah[]>;
+
+    /** A single verse by key (e.g. "2:255") */
+    getVerse(verseKey: string): Promise<SourceVerse>;
+
+    /** The rub' al-hizb starts with their page in this Mushaf. Progress is reported by juz. */
+    getDivisionStarts(onProgress?: (loadedJuz: number, totalJuz: number) => void): Promise<DivisionStart[]>;
+}
+
+// One source per installed Mushaf, so the reader keeps a stable reference
+const localSources = new Map<string, PageDataSource>();
+
+// EXPO_PUBLIC_PAGE_SOURCE=fixtures runs the reader on the bundled fixtures,
+// without network or installed package. Development builds only.
+const USE_FIXTURES = __DEV__ && process.env.EXPO_PUBLIC_PAGE_SOURCE === 'fixtures';
+let fixtureSource: PageDataSource | null = null;
+
+/**
+ * Picks the data source for a Mushaf: its installed package when present,
+ * the quran.com API otherwise. The installed_mushafs row is enough, the
+ * Mushaf may have left the catalog since it was installed.
+ */
+export async function resolvePageDataSource(mushafId: number | null): Promise<PageDataSource> {
+    if (USE_FIXTURES) {
+        if (!fixtureSource) {
+            fixtureSource = new FixturePageDataSource(FATIHA_FIXTURES);
+        }
+        return fixtureSource;
+    }
+
+    const row = mushafId !== null ? await getInstalledMushaf(await getMainDatabase(), mushafId) : null;
+    if (!row) {
+        return apiPageDataSource;
+    }
+
+    const path = row.local_path;
+    let source = localSources.get(path);
+    if (!source) {
+        source = new LocalMushafDataSource(row.id, path, row.code as Mushaf['code'], row.pages_count);
+        localSources.set(path, source);
+    }
+    return source;
+}
+
+/**
+ * Drops the source of a Mushaf whose package was updated or deleted, with
+ * the fonts it had read. The next resolve opens the new files.
+ */
+export function forgetPageDataSource(mushafId: number): void {
+    for (const [path, source] of localSources) {
+        if (source.mushafId === mushafId) {
+            localSources.delete(path);
+        }
+    }
+}
@@ -0,0 +1,264 @@
+// src/services/PagePrefetcher.ts
+// Keeps the pages around the current one ready (data and fonts), so page turns render without a spinner
+import {
+    cacheDirectory,
+    deleteAsync,
+    downloadAsync,
+    getInfoAsync,
+    makeDirectoryAsync,
+    readAsStringAsync,
+    readDirectoryAsync,
+    EncodingType
+} from 'expo-file-system/legacy';
+import { ProcessedPage } from './QuranAPI';
+import { CommonFonts, PageDataSource, PageFont } from './PageDataSource';
+
+// Pages kept in memory, least recently used first out. Fonts are embedded as
+// data URIs, so this bounds memory use too.
+const MAX_PREPARED_PAGES = 12;
+
+// Pages warmed ahead in the direction of travel, and behind it
+const PREFETCH_AHEAD = 3;
+const PREFETCH_BEHIND = 1;
+const MAX_CONCURRENT_PREFETCHES = 2;
+
+// Remote page fonts, downloaded once and reused across sessions. A page font
+// weighs about 100 KB: the bound keeps a few hundred pages.
+const FONT_CACHE_DIR = `${cacheDirectory}page_fonts/`;
+const FONT_CACHE_MAX_BYTES = 40 * 1024 * 1024;
+
+interface CachedFont {
+    name: string;
+    bytes: number;
+}
+
+export interface PreparedPage {
+    page: ProcessedPage;
+    font: PageFont | null;
+    commonFonts: CommonFonts;
+}
+
+interface CacheEntry {
+    promise: Promise<PreparedPage>;
+    value?: PreparedPage;
+}
+
+const preparedPages = new Map<string, CacheEntry>();
+
+// Bumped on every prefetch request, so queued pages of an older position are dropped
+let prefetchGeneration = 0;
+
+function cacheKey(source: PageDataSource, pageNumber: number, fontVersion: 'v1' | 'v2'): string {
+    return `${source.mushafId}:${fontVersion}:${pageNumber}`;
+}
+
+// Files of the font cache, least recently used first. Listed once per
+// session, in download order.
+let cachedFonts: Promise<CachedFont[]> | null = null;
+
+async function listCachedFonts(): Promise<CachedFont[]> {
+    if (!(await getInfoAsync(FONT_CACHE_DIR)).exists) {
+        return [];
+    }
+    const files: (CachedFont & { modifiedAt: number })[] = [];
+    for (const name of await readDirectoryAsync(FONT_CACHE_DIR)) {
+        const info = await getInfoAsync(`${FONT_CACHE_DIR}${name}`);
+        if (info.exists && !info.isDirectory) {
+            files.push({ name, bytes: info.size, modifiedAt: info.modificationTime });
+        }
+    }
+    return files
+        .sort((a, b) => a.modifiedAt - b.modifiedAt)
+        .map(({ name, bytes }) => ({ name, bytes }));
+}
+
+function getCachedFonts(): Promise<CachedFont[]> {
+    if (!cachedFonts) {
+        cachedFonts = listCachedFonts();
+        cachedFonts.catch(() => { cachedFonts = null; });
+    }
+    return cachedFonts;
+}
+
+/**
+ * Deletes the least recently used fonts until the cache fits its bound
+ */
+async function evictFonts(fonts: CachedFont[]): Promise<void> {
+    let total = fonts.reduce((sum, font) => sum + font.bytes, 0);
+    while (total > FONT_CACHE_MAX_BYTES && fonts.length > 1) {
+        const oldest = fonts.shift()!;
+        total -= oldest.bytes;
+        await deleteAsync(`${FONT_CACHE_DIR}${oldest.name}`, { idempotent: true });
+    }
+}
+
+/**
+ * Number of cached page fonts and their size in bytes
+ */
+export async function getFontCacheUsage(): Promise<{ entries: number; bytes: number }> {
+    const fonts = await getCachedFonts();
+    return { entries: fonts.length, bytes: fonts.reduce((sum, font) => sum + font.bytes, 0) };
+}
+
+/**
+ * Drops every cached page font, they are downloaded again when read online
+ */
+export async function clearFontCache(): Promise<void> {
+    cachedFonts = null;
+    await deleteAsync(FONT_CACHE_DIR, { idempotent: true });
+}
+
+/**
+ * Downloads a remote font to the cache directory and embeds it, so the
+ * WebView doesn't fetch it while the page is on screen. Falls back to the
+ * URL when the download fails.
+ */
+async function warmFont(font: PageFont | null): Promise<PageFont | null> {
+    if (!font || !font.src.startsWith('https://')) {
+        return font; // Already embedded (installed Mushaf) or system font
+    }
+
+    // The directory is part of the name: V1 and V2 fonts share their file names
+    const fontName = font.src.split('/').slice(-2).join('_');
+    const fontPath = `${FONT_CACHE_DIR}${fontName}`;
+    try {
+        const fonts = await getCachedFonts();
+        const index = fonts.findIndex(cached => cached.name === fontName);
+        const cached = index >= 0 ? fonts.splice(index, 1)[0] : null;
+        // The system may have emptied the cache directory meanwhile
+        if (cached && (await getInfoAsync(fontPath)).exists) {
+            // Most recently used goes last
+            fonts.push(cached);
+        } else {
+            await makeDirectoryAsync(FONT_CACHE_DIR, { intermediates: true });
+            const result = await downloadAsync(font.src, fontPath);
+            const info = await getInfoAsync(fontPath);
+            if (result.status !== 200 || !info.exists) {
+                await deleteAsync(fontPath, { idempotent: true });
+                return font;
+            }
+            // Unless the same font was downloaded concurrently
+            if (!fonts.some(other => other.name === fontName)) {
+                fonts.push({ name: fontName, bytes: info.size });
+            }
+            await evictFonts(fonts);
+        }
+        const base64 = await readAsStringAsync(fontPath, { encoding: EncodingType.Base64 });
+        return { ...font, src: `data:font/${font.format === 'woff2' ? 'woff2' : 'ttf'};base64,${base64}` };
+    } catch (error) {
+        console.log(`Font not warmed, loaded from ${font.src}:`, error);
+        return font;
+    }
+}
+
+async function preparePage(source: PageDataSource, pageNumber: number, fontVersion: 'v1' | 'v2'): Promise<PreparedPage> {
+    const [page, font, commonFonts] = await Promise.all([
+        source.getPage(pageNumber),
+        source.getPageFont(pageNumber, fontVersion).then(warmFont),
+        // Headers fall back to plain text if the common fonts are missing
+        source.getCommonFonts().catch((): CommonFonts => ({ surahNames: null, bismillah: null }))
+    ]);
+    return { page, font, commonFonts };
+}
+
+/**
+ * Page data and fonts, shared with a prefetch of the same page in progress
+ */
+export function loadPreparedPage(
+    source: PageDataSource,
+    pageNumber: number,
+    fontVersion: 'v1' | 'v2'
+): Promise<PreparedPage> {
+    const key = cacheKey(source, pageNumber, fontVersion);
+    let entry = preparedPages.get(key);
+
+    if (entry) {
+        // Most recently used goes last
+        preparedPages.delete(key);
+    } else {
+        const promise = preparePage(source, pageNumber, fontVersion);
+        const created: CacheEntry = { promise };
+        promise
+            .then(value => { created.value = value; })
+            // Retried on the next request
+            .catch(() => {
+                if (preparedPages.get(key) === created) {
+                    preparedPages.delete(key);
+                }
+            });
+        entry = created;
+    }
+    preparedPages.set(key, entry);
+
+    while (preparedPages.size > MAX_PREPARED_PAGES) {
+        preparedPages.delete(preparedPages.keys().next().value!);
+    }
+    return entry.promise;
+}
+
+/**
+ * A page already prepared, for rendering it without going through a loading state
+ */
+export function peekPreparedPage(
+    source: PageDataSource,
+    pageNumber: number,
+    fontVersion: 'v1' | 'v2'
+): PreparedPage | null {
+    return preparedPages.get(cacheKey(source, pageNumber, fontVersion))?.value ?? null;
+}
+
+/**
+ * Prepares the pages around the current one, those in the direction of
+ * travel first. A new call (page turn, jump) drops the pages still queued.
+ */
+export function prefetchAround(
+    source: PageDataSource,
+    pageNumber: number,
+    fontVersion: 'v1' | 'v2',
+    direction: 1 | -1
+): void {
+    const generation = ++prefetchGeneration;
+
+    const queue: number[] = [];
+    for (let offset = 1; offset <= PREFETCH_AHEAD; offset++) {
+        queue.push(pageNumber + offset * direction);
+    }
+    for (let offset = 1; offset <= PREFETCH_BEHIND; offset++) {
+        queue.push(pageNumber - offset * direction);
+    }
+    const pending = queue.filter(page =>
+        page >= 1 && page <= source.totalPages && !preparedPages.has(cacheKey(source, page, fontVersion)));
+
+    const worker = async () => {
+        while (generation === prefetchGeneration && pending.length > 0) {
+            const page = pending.shift()!;
+            try {
+                await loadPreparedPage(source, page, fontVersion);
+            } catch (error) {
+                console.log(`Error prefetching page ${page}:`, error);
+            }
+        }
+    };
+    for (let i = 0; i < Math.min(MAX_CONCURRENT_PREFETCHES, pending.length); i++) {
+        worker();
+    }
+}
+
+/**
+ * Drops the queued prefetches, e.g. when the reader closes
+ */
+export function cancelPrefetch(): void {
+    prefetchGeneration++;
+}
+
+/**
+ * Forgets the pages of a Mushaf, e.g. after its package was updated
+ */
+export function clearPreparedPages(mushafId: number): void {
+    prefetchGeneration++;
+    for (const key of [...preparedPages.keys()]) {
+        if (key.startsWith(`${mushafId}:`)) {
+            preparedPages.delete(key);
+        }
+    }
+}
@@ -1,5 +1,7 @@
 // src/services/QuranAPI.ts
 // Service to fetch real Quran data from quran.com API v4
+import { getJson, ParseError } from './HttpClient';
+import { validatePageResponse, validateSurah, validateSurahs, validateVerse } from './ApiSchema';
 
 const API_BASE_URL = 'https://api.quran.com/api/v4';
 
@@ -14,6 +16,7 @@ export interface APIWord {
     line_number: number;
     text: string;
     text_uthmani?: string;
+    verse_key?: string; // Filled in by processPageData
     translation?: {
         text: string;
         language_name: string;
@@ -35,6 +38,7 @@ export interface APIVerse {
     sajdah_number: number | null;
     page_number: number;
     juz_number: number;
+    text_uthmani?: string;
     words: APIWord[];
 }
 
@@ -74,12 +78,53 @@ export interface PageLine {
     words: APIWord[];
     isCentered: boolean;
     lineType: 'surah_name' | 'basmallah' | 'ayah';
+    surahNumber?: number; // Set on surah_name and basmallah lines
+    surahNameArabic?: string;
+    rubStart?: number; // Rub' al-hizb (1-240) beginning on this line
+}
+
+export interface PageDivision {
+    juz: number;  // 1-30
+    hizb: number; // 1-60
+    rub: number;  // 1-240
 }
 
 export interface ProcessedPage {
     pageNumber: number;
     lines: PageLine[];
     totalLines: number;
+    division?: PageDivision; // Division of the first verse on the page
+    firstVerseKey?: string;
+}
+
+/**
+ * A processed page breaks one of the layout invariants (line range, word
+ * order, words of another page)
+ */
+export class PageDataError extends Error {
+    constructor(readonly pageNumber: number, readonly problems: string[]) {
+        super(`Invalid data for page ${pageNumber}:\n${problems.slice(0, 10).join('\n')}`);
+    }
+}
+
+/**
+ * A property of an envelope payload ({ verse }, { chapters }...), undefined
+ * when the payload isn't an object. The validators check what it holds.
+ */
+function field(data: unknown, key: string): unknown {
+    return typeof data === 'object' && data !== null ? (data as Record<string, unknown>)[key] : undefined;
+}
+
+/**
+ * GETs a payload and checks its shape, a mismatch is reported as a ParseError
+ */
+async function getValidated<T>(url: string, validate: (data: unknown) => T): Promise<T> {
+    const data = await getJson<unknown>(url);
+    try {
+        return validate(data);
+    } catch (error) {
+        throw new ParseError(url, (error as Error).message);
+    }
 }
 
 /**
@@ -87,13 +132,32 @@ export interface ProcessedPage {
  */
 export async function fetchPageWithWords(pageNumber: number): Promise<APIPageResponse> {
     const url = `${API_BASE_URL}/verses/by_page/${pageNumber}?words=true&per_page=all&word_fields=code_v1,code_v2,line_number,page_number,text,text_uthmani`;
+    return getValidated(url, data => validatePageResponse(data));
+}
 
-    const response = await fetch(url);
-    if (!response.ok) {
-        throw new Error(`Failed to fetch page ${pageNumber}: ${response.statusText}`);
+/**
+ * Fetches all verses of a juz with their Uthmani text and division numbers (no words)
+ */
+export async function fetchJuzVerses(juzNumber: number): Promise<APIVerse[]> {
+    const verses: APIVerse[] = [];
+    let page: number | null = 1;
+
+    while (page !== null) {
+        const url = `${API_BASE_URL}/verses/by_juz/${juzNumber}?words=false&fields=text_uthmani&per_page=50&page=${page}`;
+        const data: APIPageResponse = await getValidated(url, response => validatePageResponse(response, false));
+        verses.push(...data.verses);
+        page = data.pagination.next_page;
     }
 
-    return response.json();
+    return verses;
+}
+
+/**
+ * Fetches a single verse by its key (e.g. "2:255") with word-level data
+ */
+export async function fetchVerseByKey(verseKey: string): Promise<APIVerse> {
+    const url = `${API_BASE_URL}/verses/by_key/${verseKey}?words=true&word_fields=code_v1,code_v2,line_number,page_number,text,text_uthmani`;
+    return getValidated(url, data => validateVerse(field(data, 'verse')));
 }
 
 /**
@@ -101,14 +165,7 @@ export async function fetchPageWithWords(pageNumber: number): Promise<APIPageRes
  */
 export async function fetchSurahs(): Promise<APISurah[]> {
     const url = `${API_BASE_URL}/chapters`;
-
-    const response = await fetch(url);
-    if (!response.ok) {
-        throw new Error(`Failed to fetch chapters: ${response.statusText}`);
-    }
-
-    const data: APIChaptersResponse = await response.json();
-    return data.chapters;
+    return getValidated(url, data => validateSurahs(field(data, 'chapters')));
 }
 
 /**
@@ -116,36 +173,74 @@ export async function fetchSurahs(): Promise<APISurah[]> {
  */
 export async function fetchSurah(surahNumber: number): Promise<APISurah> {
     const url = `${API_BASE_URL}/chapters/${surahNumber}`;
+    return getValidated(url, data => validateSurah(field(data, 'chapter')));
+}
 
-    const response = await fetch(url);
-    if (!response.ok) {
-        throw new Error(`Failed to fetch surah ${surahNumber}: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.chapter;
+/**
+ * Whether a surah is preceded by a basmallah line (all but Al-Fatiha, where it
+ * is the first verse, and At-Tawbah)
+ */
+function hasBismillahPre(surahNumber: number, surahs?: APISurah[]): boolean {
+    const surah = surahs?.find(s => s.id === surahNumber);
+    return surah ? surah.bismillah_pre : surahNumber !== 1 && surahNumber !== 9;
 }
 
 /**
  * Processes API response to organize words by line (1-15)
  * This is the key function for 15-line Mushaf rendering
+ *
+ * The API only returns verse words, so surah headers show up as empty lines.
+ * They are labeled from verse boundaries: the empty lines right above a
+ * verse 1 are its basmallah (when the surah has one) and its surah name,
+ * and empty lines at the bottom of a page belong to the next surah.
  */
-export function processPageData(pageData: APIPageResponse, pageNumber: number): ProcessedPage {
+export function processPageData(
+    pageData: APIPageResponse,
+    pageNumber: number,
+    surahs?: APISurah[],
+    rubStartKeys?: Set<string>
+): ProcessedPage {
+    // Determine expected number of lines (page 1-2 have 8 lines, rest have 15)
+    const expectedLines = pageNumber <= 2 ? 8 : 15;
+
     const linesMap = new Map<number, APIWord[]>();
+    const problems: string[] = [];
+    let previousLine = 0;
 
-    // Group all words by their line number
+    // Group the words of this page by their line number. A verse crossing the
+    // page boundary also lists its words of the neighbouring page, left out here.
     for (const verse of pageData.verses) {
+        let previousPosition = 0;
         for (const word of verse.words) {
+            if (word.position <= previousPosition) {
+                problems.push(`${verse.verse_key}: word ${word.position} comes after word ${previousPosition}`);
+            }
+            previousPosition = word.position;
+
+            if (word.page_number !== pageNumber) {
+                continue;
+            }
+
             const lineNum = word.line_number;
+            if (lineNum < 1 || lineNum > expectedLines) {
+                problems.push(`${verse.verse_key}: word ${word.position} on line ${lineNum}, outside 1-${expectedLines}`);
+                continue;
+            }
+            if (lineNum < previousLine) {
+                problems.push(`${verse.verse_key}: word ${word.position} on line ${lineNum}, after line ${previousLine}`);
+            }
+            previousLine = lineNum;
+
             if (!linesMap.has(lineNum)) {
                 linesMap.set(lineNum, []);
             }
-            linesMap.get(lineNum)!.push(word);
+            linesMap.get(lineNum)!.push({ ...word, verse_key: verse.verse_key });
         }
     }
 
-    // Determine expected number of lines (page 1-2 have 8 lines, rest have 15)
-    const expectedLines = pageNumber <= 2 ? 8 : 15;
+    if (problems.length > 0) {
+        throw new PageDataError(pageNumber, problems);
+    }
 
     // Build lines array, filling in empty lines if necessary
     const lines: PageLine[] = [];
@@ -153,58 +248,90 @@ export function processPageData(pageData: APIPageResponse, pageNumber: number):
     for (let lineNum = 1; lineNum <= expectedLines; lineNum++) {
         const words = linesMap.get(lineNum) || [];
 
-        // Determine line type based on content
-        let lineType: 'surah_name' | 'basmallah' | 'ayah' = 'ayah';
-        let isCentered = false;
-
-        // Check if this might be a surah name or basmallah line
-        // (This is a heuristic - actual surah headers may need different handling)
-        if (words.length === 0) {
-            isCentered = true;
-        }
-
         lines.push({
             lineNumber: lineNum,
             words,
-            isCentered,
-            lineType
+            isCentered: words.length === 0,
+            lineType: 'ayah'
         });
     }
 
-    return {
-        pageNumber,
-        lines,
-        totalLines: lines.length
+    const isEmpty = (line: PageLine | undefined) =>
+        line !== undefined && line.words.length === 0 && line.lineType === 'ayah';
+
+    const markHeader = (line: PageLine, lineType: 'surah_name' | 'basmallah', surahNumber: number) => {
+        line.lineType = lineType;
+        line.isCentered = true;
+        line.surahNumber = surahNumber;
+        line.surahNameArabic = surahs?.find(s => s.id === surahNumber)?.name_arabic;
     };
-}
 
-/**
- * Prefetch multiple pages (for smoother navigation)
- */
-export async function prefetchPages(startPage: number, count: number = 3): Promise<Map<number, ProcessedPage>> {
-    const results = new Map<number, ProcessedPage>();
-    const maxPage = 604;
-
-    const pagesToFetch: number[] = [];
-    for (let i = 0; i < count; i++) {
-        const page = startPage + i;
-        if (page >= 1 && page <= maxPage) {
-            pagesToFetch.push(page);
+    // Headers above each surah starting on this page
+    for (const verse of pageData.verses) {
+        if (verse.verse_number !== 1 || verse.words.length === 0 || verse.words[0].page_number !== pageNumber) {
+            continue;
+        }
+
+        const surahNumber = parseInt(verse.verse_key.split(':')[0], 10);
+        let index = verse.words[0].line_number - 2; // Line right above, 0-based
+
+        if (hasBismillahPre(surahNumber, surahs) && isEmpty(lines[index])) {
+            markHeader(lines[index], 'basmallah', surahNumber);
+            index--;
+        }
+        if (isEmpty(lines[index])) {
+            markHeader(lines[index], 'surah_name', surahNumber);
         }
     }
 
-    const fetches = pagesToFetch.map(async (pageNum) => {
-        try {
-            const data = await fetchPageWithWords(pageNum);
-            const processed = processPageData(data, pageNum);
-            results.set(pageNum, processed);
-        } catch (error) {
-            console.error(`Error prefetching page ${pageNum}:`, error);
+    // Headers of a surah starting on the next page
+    const lastVerse = pageData.verses[pageData.verses.length - 1];
+    const lastWords = lastVerse?.words ?? [];
+    if (lastWords.length > 0 && lastWords[lastWords.length - 1].page_number === pageNumber) {
+        const nextSurah = parseInt(lastVerse.verse_key.split(':')[0], 10) + 1;
+        let index = lastWords[lastWords.length - 1].line_number; // Line right below, 0-based
+
+        if (nextSurah <= 114 && isEmpty(lines[index])) {
+            markHeader(lines[index], 'surah_name', nextSurah);
+            index++;
+            if (hasBismillahPre(nextSurah, surahs) && isEmpty(lines[index])) {
+                markHeader(lines[index], 'basmallah', nextSurah);
+            }
+        }
+    }
+
+    // Rub' al-hizb markers: a verse starts a rub' when its number changes from
+    // the previous verse. The first verse of the page can only be checked
+    // against the known rub' starts (see QuranDivisions).
+    let previousRub: number | null = null;
+    for (const verse of pageData.verses) {
+        const startsOnPage = verse.words.length > 0 && verse.words[0].page_number === pageNumber;
+        const isRubStart = previousRub === null
+            ? rubStartKeys?.has(verse.verse_key) ?? false
+            : verse.rub_el_hizb_number !== previousRub;
+
+        if (isRubStart && startsOnPage) {
+            const line = lines[verse.words[0].line_number - 1];
+            if (line) {
+                line.rubStart = verse.rub_el_hizb_number;
+            }
         }
-    });
+        previousRub = verse.rub_el_hizb_number;
+    }
+
+    const firstVerse = pageData.verses[0];
 
-    await Promise.all(fetches);
-    return results;
+    return {
+        pageNumber,
+        lines,
+        totalLines: lines.length,
+        firstVerseKey: firstVerse?.verse_key,
+        division: firstVerse ? {
+            juz: firstVerse.juz_number,
+            hizb: firstVerse.hizb_number,
+            rub: firstVerse.rub_el_hizb_number
+        } : undefined
+    };
 }
 
 /**
@@ -231,12 +358,6 @@ export function getQCFv2FontUrl(pageNumber: number): string {
  */
 export async function fetchUthmaniText(pageNumber: number): Promise<string[]> {
     const url = `${API_BASE_URL}/quran/verses/uthmani?page_number=${pageNumber}`;
-
-    const response = await fetch(url);
-    if (!response.ok) {
-        throw new Error(`Failed to fetch Uthmani text for page ${pageNumber}`);
-    }
-
-    const data = await response.json();
-    return data.verses.map((v: { text_uthmani: string }) => v.text_uthmani);
+    const data = await getJson<{ verses: { text_uthmani: string }[] }>(url);
+    return data.verses.map(v => v.text_uthmani);
 }
@@ -0,0 +1,147 @@
+// src/services/QuranDivisions.ts
+// Juz, hizb and rub' al-hizb boundaries, derived from the quran.com verse metadata
+import { fetchJuzVerses } from './QuranAPI';
+import { cachedFetch } from './PageCache';
+
+export const TOTAL_JUZ = 30;
+export const TOTAL_RUB = 240;
+
+// Opening verse of each juz, the same in every Hafs Mushaf
+export const JUZ_START_VERSE_KEYS = [
+    '1:1', '2:142', '2:253', '3:93', '4:24', '4:148', '5:82', '6:111', '7:88', '8:41',
+    '9:93', '11:6', '12:53', '15:1', '17:1', '18:75', '21:1', '23:1', '25:21', '27:56',
+    '29:46', '33:31', '36:28', '39:32', '41:47', '46:1', '51:31', '58:1', '67:1', '78:1'
+];
+
+// Opening verse of each rub' al-hizb, the same in every Hafs Mushaf. Every 8th is a juz start.
+export const RUB_START_VERSE_KEYS = [
+    '1:1', '2:26', '2:44', '2:60', '2:75', '2:92', '2:106', '2:124',
+    '2:142', '2:158', '2:177', '2:189', '2:203', '2:219', '2:233', '2:243',
+    '2:253', '2:263', '2:272', '2:283', '3:15', '3:33', '3:52', '3:75',
+    '3:93', '3:113', '3:133', '3:153', '3:171', '3:186', '4:1', '4:12',
+    '4:24', '4:36', '4:58', '4:74', '4:88', '4:100', '4:114', '4:135',
+    '4:148', '4:163', '5:1', '5:12', '5:27', '5:41', '5:51', '5:67',
+    '5:82', '5:97', '5:109', '6:13', '6:36', '6:59', '6:74', '6:95',
+    '6:111', '6:127', '6:141', '6:151', '7:1', '7:31', '7:47', '7:65',
+    '7:88', '7:117', '7:142', '7:156', '7:171', '7:189', '8:1', '8:22',
+    '8:41', '8:61', '9:1', '9:19', '9:34', '9:46', '9:60', '9:75',
+    '9:93', '9:111', '9:122', '10:11', '10:26', '10:53', '10:71', '10:90',
+    '11:6', '11:24', '11:41', '11:61', '11:84', '11:108', '12:7', '12:30',
+    '12:53', '12:77', '12:101', '13:5', '13:19', '13:35', '14:10', '14:28',
+    '15:1', '15:50', '16:1', '16:30', '16:51', '16:75', '16:90', '16:111',
+    '17:1', '17:23', '17:50', '17:70', '17:99', '18:17', '18:32', '18:51',
+    '18:75', '18:99', '19:22', '19:59', '20:1', '20:55', '20:83', '20:111',
+    '21:1', '21:29', '21:51', '21:83', '22:1', '22:19', '22:38', '22:60',
+    '23:1', '23:36', '23:75', '24:1', '24:21', '24:35', '24:53', '25:1',
+    '25:21', '25:53', '26:1', '26:52', '26:111', '26:181', '27:1', '27:27',
+    '27:56', '27:82', '28:12', '28:29', '28:51', '28:76', '29:1', '29:26',
+    '29:46', '30:1', '30:31', '30:54', '31:22', '32:11', '33:1', '33:18',
+    '33:31', '33:51', '33:60', '34:10', '34:24', '34:46', '35:15', '35:41',
+    '36:28', '36:60', '37:22', '37:83', '37:145', '38:21', '38:52', '39:8',
+    '39:32', '39:53', '40:1', '40:21', '40:41', '40:66', '41:9', '41:25',
+    '41:47', '42:13', '42:27', '42:51', '43:24', '43:57', '44:17', '45:12',
+    '46:1', '46:21', '47:10', '47:33', '48:18', '49:1', '49:14', '50:27',
+    '51:31', '52:24', '53:26', '54:9', '55:1', '56:1', '56:75', '57:16',
+    '58:1', '58:14', '59:11', '60:7', '62:1', '63:4', '65:1', '66:1',
+    '67:1', '68:1', '69:1', '70:19', '72:1', '73:20', '75:1', '76:19',
+    '78:1', '80:1', '82:1', '84:1', '87:1', '90:1', '94:1', '100:9'
+];
+
+// Start page of each juz in the Madani 604-page numbering
+export const MADANI_JUZ_START_PAGES = [
+    1, 22, 42, 62, 82, 102, 121, 142, 162, 182,
+    201, 222, 242, 262, 282, 302, 322, 342, 362, 382,
+    402, 422, 442, 462, 482, 502, 522, 542, 562, 582
+];
+
+export interface DivisionStart {
+    rub: number;  // 1-240
+    hizb: number; // 1-60
+    juz: number;  // 1-30
+    verse_key: string;
+    page_number: number; // Madani 604-page numbering, or the installed Mushaf's own
+    text: string; // Opening verse text
+}
+
+function juzCacheKey(juzNumber: number): string {
+    return `divisions:juz:${juzNumber}`;
+}
+
+/**
+ * Reduces the verses of a juz to the first verse of each of its 8 rub'
+ */
+async function fetchJuzDivisions(juzNumber: number): Promise<DivisionStart[]> {
+    const verses = await fetchJuzVerses(juzNumber);
+    const starts: DivisionStart[] = [];
+
+    for (const verse of verses) {
+        if (starts.length === 0 || starts[starts.length - 1].rub !== verse.rub_el_hizb_number) {
+            starts.push({
+                rub: verse.rub_el_hizb_number,
+                hizb: verse.hizb_number,
+                juz: verse.juz_number,
+                verse_key: verse.verse_key,
+                page_number: verse.page_number,
+                text: verse.text_uthmani ?? ''
+            });
+        }
+    }
+
+    return starts;
+}
+
+/**
+ * Loads the 240 rub' starts, one cached request set per juz
+ */
+export async function getDivisionStarts(
+    onProgress?: (loadedJuz: number, totalJuz: number) => void
+): Promise<DivisionStart[]> {
+    const starts: DivisionStart[] = [];
+
+    for (let juz = 1; juz <= TOTAL_JUZ; juz++) {
+        starts.push(...await cachedFetch(juzCacheKey(juz), () => fetchJuzDivisions(juz)));
+        onProgress?.(juz, TOTAL_JUZ);
+    }
+
+    return starts;
+}
+
+/**
+ * Orders verse keys ("2:255") in mushaf order
+ */
+export function compareVerseKeys(a: string, b: string): number {
+    const [surahA, ayahA] = a.split(':').map(Number);
+    const [surahB, ayahB] = b.split(':').map(Number);
+    return surahA !== surahB ? surahA - surahB : ayahA - ayahB;
+}
+
+/**
+ * Finds the rub' containing a verse, from a list sorted in mushaf order
+ */
+export function findDivisionForVerse(starts: DivisionStart[], verseKey: string): DivisionStart | null {
+    let found: DivisionStart | null = null;
+    for (const start of starts) {
+        if (compareVerseKeys(start.verse_key, verseKey) > 0) {
+            break;
+        }
+        found = start;
+    }
+    return found;
+}
+
+/**
+ * Arabic label of a rub': hizb start, then ¼, ½ and ¾ of the hizb
+ */
+export function getRubLabel(rub: number): string {
+    const hizb = Math.ceil(rub / 4);
+    switch ((rub - 1) % 4) {
+        case 0:
+            return `الحزب ${hizb}`;
+        case 1:
+            return `ربع الحزب ${hizb}`;
+        case 2:
+            return `نصف الحزب ${hizb}`;
+        default:
+            return `ثلاثة أرباع الحزب ${hizb}`;
+    }
+}
@@ -0,0 +1,230 @@
+// src/services/ReadingStats.ts
+// Aggregates the reading history into daily progress, streaks, juz coverage and favourite surahs
+import { ReadingSession } from '../types';
+import { APISurah } from './QuranAPI';
+import { PageDataSource, resolvePageDataSource } from './PageDataSource';
+import { API_MUSHAF_ID } from './ApiPageDataSource';
+import { JUZ_START_VERSE_KEYS, MADANI_JUZ_START_PAGES, TOTAL_JUZ } from './QuranDivisions';
+
+const TOP_SURAHS_COUNT = 5;
+export const CHART_DAYS = 7;
+
+// Page layout of a Mushaf, needed to map its page numbers to juz and surahs
+export interface MushafLayout {
+    totalPages: number;
+    juzStartPages: number[];
+    surahs: APISurah[];
+}
+
+export interface DailyPages {
+    dateKey: string; // YYYY-MM-DD, local time
+    pages: number;
+}
+
+// Sessions of one calendar day, titled with the Arabic date
+export interface DaySection {
+    title: string;
+    data: ReadingSession[];
+}
+
+export interface ReadingStats {
+    pagesToday: number;
+    pagesThisWeek: number;  // Last 7 days
+    pagesThisMonth: number; // Last 30 days
+    dailyPages: DailyPages[]; // Last CHART_DAYS days, oldest first
+    currentStreak: number;
+    longestStreak: number;
+    totalSeconds: number;
+    averageSecondsPerPage: number;
+    juzCoverage: number[]; // Share of each juz read at least once, 0-1
+    topSurahs: { surah: APISurah; visits: number }[];
+}
+
+/**
+ * Local calendar day of a date, so that a night reading counts for the right day
+ */
+export function toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Noon of a day key, safe from daylight saving shifts when adding days
+ */
+export function fromDateKey(dateKey: string): Date {
+    return new Date(`${dateKey}T12:00:00`);
+}
+
+export function addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+}
+
+/**
+ * Groups consecutive sessions of the same day, in the order given
+ */
+export function groupByDay(sessions: ReadingSession[]): DaySection[] {
+    const sections: DaySection[] = [];
+    for (const session of sessions) {
+        const title = new Date(session.timestamp).toLocaleDateString('ar', {
+            weekday: 'long',
+            day: 'numeric',
+            month: 'long'
+        });
+        const last = sections[sections.length - 1];
+        if (last?.title === title) {
+            last.data.push(session);
+        } else {
+            sections.push({ title, data: [session] });
+        }
+    }
+    return sections;
+}
+
+/**
+ * Start page of each juz in a Mushaf, located by the juz opening verses
+ * for layouts other than the Madani API one
+ */
+export async function loadJuzStartPages(dataSource: PageDataSource): Promise<number[]> {
+    if (dataSource.mushafId === API_MUSHAF_ID) {
+        return MADANI_JUZ_START_PAGES;
+    }
+    return await Promise.all(JUZ_START_VERSE_KEYS.map(async key => (await dataSource.getVerse(key)).page_number));
+}
+
+/**
+ * Loads the juz boundaries and surah ranges of a Mushaf.
+ * Surahs are optional: the API list may be unavailable offline.
+ */
+export async function loadMushafLayout(mushafId: number): Promise<MushafLayout> {
+    const dataSource = await resolvePageDataSource(mushafId);
+
+    return {
+        totalPages: dataSource.totalPages,
+        juzStartPages: await loadJuzStartPages(dataSource),
+        surahs: await dataSource.getSurahs().catch(() => [])
+    };
+}
+
+/**
+ * Counts consecutive reading days. The current streak still holds when
+ * today's reading hasn't been done yet.
+ */
+function computeStreaks(days: Set<string>, now: Date): { current: number; longest: number } {
+    let current = 0;
+    let cursor = days.has(toDateKey(now)) ? now : addDays(now, -1);
+    while (days.has(toDateKey(cursor))) {
+        current++;
+        cursor = addDays(cursor, -1);
+    }
+
+    let longest = 0;
+    let run = 0;
+    let previous: string | null = null;
+    for (const day of Array.from(days).sort()) {
+        const expected: string | null = previous ? toDateKey(addDays(fromDateKey(previous), 1)) : null;
+        run = day === expected ? run + 1 : 1;
+        longest = Math.max(longest, run);
+        previous = day;
+    }
+
+    return { current, longest };
+}
+
+/**
+ * Share of each juz whose pages were read at least once, best Mushaf wins
+ */
+function computeJuzCoverage(
+    pagesByMushaf: Map<number, Set<number>>,
+    layouts: Map<number, MushafLayout>
+): number[] {
+    const coverage = new Array<number>(TOTAL_JUZ).fill(0);
+
+    pagesByMushaf.forEach((pages, mushafId) => {
+        const layout = layouts.get(mushafId);
+        if (!layout) {
+            return;
+        }
+        for (let juz = 0; juz < TOTAL_JUZ; juz++) {
+            const firstPage = layout.juzStartPages[juz];
+            const lastPage = juz + 1 < TOTAL_JUZ ? layout.juzStartPages[juz + 1] - 1 : layout.totalPages;
+            let readPages = 0;
+            for (let page = firstPage; page <= lastPage; page++) {
+                if (pages.has(page)) {
+                    readPages++;
+                }
+            }
+            coverage[juz] = Math.max(coverage[juz], readPages / (lastPage - firstPage + 1));
+        }
+    });
+
+    return coverage;
+}
+
+export function computeReadingStats(
+    sessions: ReadingSession[],
+    layouts: Map<number, MushafLayout>,
+    now: Date = new Date()
+): ReadingStats {
+    // A page read twice the same day counts once
+    const pagesByDay = new Map<string, Set<string>>();
+    const pagesByMushaf = new Map<number, Set<number>>();
+    const surahVisits = new Map<number, { surah: APISurah; visits: number }>();
+    let totalSeconds = 0;
+
+    for (const session of sessions) {
+        const day = toDateKey(new Date(session.timestamp));
+        if (!pagesByDay.has(day)) {
+            pagesByDay.set(day, new Set());
+        }
+        pagesByDay.get(day)!.add(`${session.mushaf_id}:${session.page_number}`);
+
+        if (!pagesByMushaf.has(session.mushaf_id)) {
+            pagesByMushaf.set(session.mushaf_id, new Set());
+        }
+        pagesByMushaf.get(session.mushaf_id)!.add(session.page_number);
+
+        totalSeconds += session.duration_seconds;
+
+        for (const surah of layouts.get(session.mushaf_id)?.surahs ?? []) {
+            if (session.page_number >= surah.pages[0] && session.page_number <= surah.pages[1]) {
+                const entry = surahVisits.get(surah.id) ?? { surah, visits: 0 };
+                entry.visits++;
+                surahVisits.set(surah.id, entry);
+            }
+        }
+    }
+
+    const pagesOnDay = (daysAgo: number) => pagesByDay.get(toDateKey(addDays(now, -daysAgo)))?.size ?? 0;
+    const pagesInLastDays = (days: number) => {
+        let total = 0;
+        for (let daysAgo = 0; daysAgo < days; daysAgo++) {
+            total += pagesOnDay(daysAgo);
+        }
+        return total;
+    };
+
+    const dailyPages: DailyPages[] = [];
+    for (let daysAgo = CHART_DAYS - 1; daysAgo >= 0; daysAgo--) {
+        dailyPages.push({ dateKey: toDateKey(addDays(now, -daysAgo)), pages: pagesOnDay(daysAgo) });
+    }
+
+    const streaks = computeStreaks(new Set(pagesByDay.keys()), now);
+
+    return {
+        pagesToday: pagesOnDay(0),
+        pagesThisWeek: pagesInLastDays(7),
+        pagesThisMonth: pagesInLastDays(30),
+        dailyPages,
+        currentStreak: streaks.current,
+        longestStreak: streaks.longest,
+        totalSeconds,
+        averageSecondsPerPage: sessions.length > 0 ? Math.round(totalSeconds / sessions.length) : 0,
+        juzCoverage: computeJuzCoverage(pagesByMushaf, layouts),
+        topSurahs: Array.from(surahVisits.values())
+            .sort((a, b) => b.visits - a.visits)
+            .slice(0, TOP_SURAHS_COUNT)
+    };
+}
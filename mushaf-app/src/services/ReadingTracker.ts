@@ -0,0 +1,91 @@
+// src/services/ReadingTracker.ts
+// Measures the time spent on each page and stores it as a reading session
+import { getMainDatabase, recordReadingSession } from '../database/schema';
+
+// Shorter visits are page flips, not reading
+export const MIN_SESSION_SECONDS = 5;
+// Longer visits are capped, the screen was probably left on
+export const MAX_SESSION_SECONDS = 15 * 60;
+
+interface ActivePage {
+    mushafId: number;
+    pageNumber: number;
+    startedAt: number | null; // null while paused
+}
+
+/**
+ * Formats a duration in seconds as Arabic text ("3 د 20 ث")
+ */
+export function formatDuration(totalSeconds: number): string {
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (hours > 0) {
+        return `${hours} س ${minutes} د`;
+    }
+    if (minutes > 0) {
+        return seconds > 0 ? `${minutes} د ${seconds} ث` : `${minutes} د`;
+    }
+    return `${seconds} ث`;
+}
+
+class ReadingTracker {
+    private active: ActivePage | null = null;
+
+    /**
+     * Starts timing a page, recording the previous one
+     */
+    startPage(mushafId: number, pageNumber: number): void {
+        if (this.active?.mushafId === mushafId && this.active.pageNumber === pageNumber) {
+            return;
+        }
+        this.flush();
+        this.active = { mushafId, pageNumber, startedAt: Date.now() };
+    }
+
+    /**
+     * Stops the clock (app in background, reader hidden) and records the
+     * time spent so far, since the app may be killed while paused
+     */
+    pause(): void {
+        if (!this.active || this.active.startedAt === null) {
+            return;
+        }
+        const { mushafId, pageNumber } = this.active;
+        this.flush();
+        this.active = { mushafId, pageNumber, startedAt: null };
+    }
+
+    resume(): void {
+        if (this.active && this.active.startedAt === null) {
+            this.active.startedAt = Date.now();
+        }
+    }
+
+    /**
+     * Records the current page and stops tracking
+     */
+    stop(): void {
+        this.flush();
+        this.active = null;
+    }
+
+    private flush(): void {
+        const active = this.active;
+        if (!active || active.startedAt === null) {
+            return;
+        }
+
+        const seconds = Math.min(Math.round((Date.now() - active.startedAt) / 1000), MAX_SESSION_SECONDS);
+        if (seconds < MIN_SESSION_SECONDS) {
+            return;
+        }
+
+        getMainDatabase()
+            .then(db => recordReadingSession(db, active.mushafId, active.pageNumber, seconds))
+            .catch(error => console.log('Error recording reading session:', error));
+    }
+}
+
+export const readingTracker = new ReadingTracker();
@@ -0,0 +1,123 @@
+// src/services/Sha256.ts
+// Incremental SHA-256, so large files can be hashed chunk by chunk without loading them in memory
+
+const K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const BLOCK_BYTES = 64;
+
+export class Sha256 {
+    private readonly state = new Uint32Array([
+        0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+    ]);
+    private readonly words = new Uint32Array(64);
+    // Bytes left over from the previous update, less than one block
+    private readonly buffer = new Uint8Array(BLOCK_BYTES);
+    private buffered = 0;
+    private totalBytes = 0;
+    private finished = false;
+
+    update(data: Uint8Array): this {
+        if (this.finished) {
+            throw new Error('SHA-256 already finalized');
+        }
+        this.totalBytes += data.length;
+
+        let offset = 0;
+        if (this.buffered > 0) {
+            const taken = Math.min(BLOCK_BYTES - this.buffered, data.length);
+            this.buffer.set(data.subarray(0, taken), this.buffered);
+            this.buffered += taken;
+            offset = taken;
+            if (this.buffered < BLOCK_BYTES) {
+                return this;
+            }
+            this.processBlock(this.buffer, 0);
+            this.buffered = 0;
+        }
+
+        for (; offset + BLOCK_BYTES <= data.length; offset += BLOCK_BYTES) {
+            this.processBlock(data, offset);
+        }
+        this.buffer.set(data.subarray(offset));
+        this.buffered = data.length - offset;
+        return this;
+    }
+
+    /**
+     * Lowercase hex digest. The hash can't be updated afterwards.
+     */
+    hexDigest(): string {
+        if (!this.finished) {
+            this.pad();
+            this.finished = true;
+        }
+        return Array.from(this.state, word => word.toString(16).padStart(8, '0')).join('');
+    }
+
+    private pad(): void {
+        const bitLength = this.totalBytes * 8;
+        const padding = new Uint8Array((this.buffered < 56 ? 56 : 120) - this.buffered + 8);
+        padding[0] = 0x80;
+
+        // Message length in bits, big-endian on 64 bits
+        const view = new DataView(padding.buffer);
+        view.setUint32(padding.length - 8, Math.floor(bitLength / 0x100000000));
+        view.setUint32(padding.length - 4, bitLength >>> 0);
+
+        const totalBytes = this.totalBytes;
+        this.update(padding);
+        this.totalBytes = totalBytes;
+    }
+
+    private processBlock(data: Uint8Array, offset: number): void {
+        const w = this.words;
+        for (let i = 0; i < 16; i++) {
+            const j = offset + i * 4;
+            w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+        }
+        for (let i = 16; i < 64; i++) {
+            const w15 = w[i - 15];
+            const w2 = w[i - 2];
+            const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+            const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+            w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+        }
+
+        let [a, b, c, d, e, f, g, h] = this.state;
+        for (let i = 0; i < 64; i++) {
+            const s1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+            const ch = (e & f) ^ (~e & g);
+            const t1 = (h + s1 + ch + K[i] + w[i]) | 0;
+            const s0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+            const maj = (a & b) ^ (a & c) ^ (b & c);
+            const t2 = (s0 + maj) | 0;
+
+            h = g;
+            g = f;
+            f = e;
+            e = (d + t1) | 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (t1 + t2) | 0;
+        }
+
+        this.state[0] += a;
+        this.state[1] += b;
+        this.state[2] += c;
+        this.state[3] += d;
+        this.state[4] += e;
+        this.state[5] += f;
+        this.state[6] += g;
+        this.state[7] += h;
+    }
+}
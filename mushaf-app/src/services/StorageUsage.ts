@@ -0,0 +1,49 @@
+// src/services/StorageUsage.ts
+// Disk space used by installed Mushafs, the API page and font caches and leftover download files
+import { getFreeDiskStorageAsync, getTotalDiskCapacityAsync } from 'expo-file-system/legacy';
+import { getMainDatabase, getInstalledMushafs } from '../database/schema';
+import { getPageCacheUsage } from './PageCache';
+import { getFontCacheUsage } from './PagePrefetcher';
+import { downloadManager, getDirectorySize } from './DownloadManager';
+import { StorageReport } from '../types';
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) {
+        return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    }
+    if (bytes < 1024 * 1024 * 1024) {
+        return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    }
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+export async function getStorageReport(): Promise<StorageReport> {
+    const db = await getMainDatabase();
+    const [rows, pageCache, fontCache, temporaryDirectories, freeBytes, totalBytes] = await Promise.all([
+        getInstalledMushafs(db),
+        getPageCacheUsage(),
+        getFontCacheUsage(),
+        downloadManager.getTemporaryDirectories(),
+        getFreeDiskStorageAsync(),
+        getTotalDiskCapacityAsync()
+    ]);
+
+    // Sequential walks, the font directories hold hundreds of files each
+    const mushafs: StorageReport['mushafs'] = [];
+    for (const row of rows) {
+        mushafs.push({ mushaf_id: row.id, name: row.name, bytes: await getDirectorySize(row.local_path) });
+    }
+    const temporary: StorageReport['temporary_directories'] = [];
+    for (const directory of temporaryDirectories) {
+        temporary.push({ ...directory, bytes: await getDirectorySize(directory.path) });
+    }
+
+    return {
+        free_bytes: freeBytes,
+        total_bytes: totalBytes,
+        mushafs: mushafs.sort((a, b) => b.bytes - a.bytes),
+        page_cache: pageCache,
+        font_cache: fontCache,
+        temporary_directories: temporary
+    };
+}
@@ -0,0 +1,77 @@
+// src/services/VerseLookup.ts
+// Parses "go to" queries: a page number, a verse key ("2:255") or a surah name and verse ("البقرة 255")
+import { PageDataSource } from './PageDataSource';
+
+export type GoToTarget =
+    | { type: 'page'; pageNumber: number }
+    | { type: 'verse'; pageNumber: number; verseKey: string; wordIds: number[] };
+
+const ARABIC_INDIC_DIGITS = /[٠-٩]/g;
+
+/**
+ * Ignores diacritics and hamza/alef variants, to compare Arabic names
+ */
+export function normalizeArabic(text: string): string {
+    return text
+        .replace(/[ً-ْٰـ]/g, '')
+        .replace(/[أإآٱ]/g, 'ا')
+        .replace(/ة/g, 'ه')
+        .replace(/ى/g, 'ي');
+}
+
+function toLatinDigits(text: string): string {
+    return text.replace(ARABIC_INDIC_DIGITS, d => String(d.charCodeAt(0) - 0x0660));
+}
+
+/**
+ * Resolves a query to a page, or to a verse with its page and words.
+ * Throws with an Arabic message when the query can't be resolved.
+ */
+export async function resolveGoToQuery(query: string, dataSource: PageDataSource): Promise<GoToTarget> {
+    const input = toLatinDigits(query.trim());
+
+    if (/^\d+$/.test(input)) {
+        const pageNumber = parseInt(input, 10);
+        if (pageNumber < 1 || pageNumber > dataSource.totalPages) {
+            throw new Error(`الرجاء إدخال رقم بين 1 و ${dataSource.totalPages}`);
+        }
+        return { type: 'page', pageNumber };
+    }
+
+    let surahNumber: number;
+    let verseNumber: number;
+
+    const keyMatch = input.match(/^(\d+)\s*[:：.]\s*(\d+)$/);
+    const nameMatch = input.match(/^(?:سورة\s+)?(.+?)\s*[: ]\s*(\d+)$/);
+
+    if (keyMatch) {
+        surahNumber = parseInt(keyMatch[1], 10);
+        verseNumber = parseInt(keyMatch[2], 10);
+    } else if (nameMatch) {
+        const name = normalizeArabic(nameMatch[1]);
+        const surahs = await dataSource.getSurahs();
+        const surah = surahs.find(s => normalizeArabic(s.name_arabic) === name)
+            ?? surahs.find(s => s.name_simple.toLowerCase() === nameMatch[1].toLowerCase());
+        if (!surah) {
+            throw new Error(`لم يتم العثور على سورة «${nameMatch[1]}»`);
+        }
+        surahNumber = surah.id;
+        verseNumber = parseInt(nameMatch[2], 10);
+    } else {
+        throw new Error('أدخل رقم صفحة أو آية مثل 2:255 أو البقرة 255');
+    }
+
+    if (surahNumber < 1 || surahNumber > 114 || verseNumber < 1) {
+        throw new Error(`الآية ${surahNumber}:${verseNumber} غير موجودة`);
+    }
+
+    const verseKey = `${surahNumber}:${verseNumber}`;
+    const verse = await dataSource.getVerse(verseKey);
+
+    return {
+        type: 'verse',
+        pageNumber: verse.page_number,
+        verseKey,
+        wordIds: verse.words.map(word => word.id)
+    };
+}
@@ -0,0 +1,209 @@
+// src/services/WirdReminders.ts
+// Daily wird reminders as local notifications, with today's khatm portion or the last read page
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { getMainDatabase, getPreference, setPreference, getLastReadPages } from '../database/schema';
+import { getKhatmStatus, KhatmStatus } from './KhatmPlanner';
+import { addDays, toDateKey } from './ReadingStats';
+
+const ENABLED_PREFERENCE = 'wird_reminders_enabled';
+const TIMES_PREFERENCE = 'wird_reminder_times';
+const CHANNEL_ID = 'wird';
+const IDENTIFIER_PREFIX = 'wird-';
+
+// Reminders are one-shot notifications carrying each day's portion, renewed
+// on every launch. A week covers users who don't open the app every day.
+const SCHEDULE_DAYS = 7;
+
+export interface ReminderTime {
+    hour: number;
+    minute: number;
+}
+
+export interface ReminderSettings {
+    enabled: boolean;
+    times: ReminderTime[];
+}
+
+// Where tapping a reminder opens the reader
+export interface ReminderTarget {
+    mushafId: number;
+    page: number;
+}
+
+const DEFAULT_TIMES: ReminderTime[] = [{ hour: 20, minute: 0 }];
+
+Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false
+    })
+});
+
+export function formatReminderTime(time: ReminderTime): string {
+    return `${String(time.hour).padStart(2, '0')}:${String(time.minute).padStart(2, '0')}`;
+}
+
+/**
+ * Parses "HH:MM", null when invalid
+ */
+export function parseReminderTime(text: string): ReminderTime | null {
+    const match = text.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) {
+        return null;
+    }
+    const hour = parseInt(match[1], 10);
+    const minute = parseInt(match[2], 10);
+    return hour < 24 && minute < 60 ? { hour, minute } : null;
+}
+
+export async function getReminderSettings(): Promise<ReminderSettings> {
+    const db = await getMainDatabase();
+    const [enabled, times] = await Promise.all([
+        getPreference(db, ENABLED_PREFERENCE),
+        getPreference(db, TIMES_PREFERENCE)
+    ]);
+
+    return {
+        enabled: enabled === 'true',
+        times: times ? JSON.parse(times) : DEFAULT_TIMES
+    };
+}
+
+/**
+ * Saves the settings and schedules the reminders accordingly.
+ * Throws when notifications are refused by the user.
+ */
+export async function saveReminderSettings(settings: ReminderSettings): Promise<void> {
+    if (settings.enabled) {
+        const permissions = await Notifications.getPermissionsAsync();
+        if (!permissions.granted && !(await Notifications.requestPermissionsAsync()).granted) {
+            throw new Error('يرجى السماح بالإشعارات من إعدادات الجهاز');
+        }
+    }
+
+    const db = await getMainDatabase();
+    const times = [...settings.times].sort((a, b) => a.hour - b.hour || a.minute - b.minute);
+    await setPreference(db, ENABLED_PREFERENCE, String(settings.enabled));
+    await setPreference(db, TIMES_PREFERENCE, JSON.stringify(times));
+
+    await rescheduleWirdReminders();
+}
+
+/**
+ * Message and target of the reminders of a day. For today, only the part
+ * of the portion that is left is mentioned.
+ */
+function buildReminder(
+    dateKey: string,
+    khatmStatus: KhatmStatus | null,
+    lastRead: ReminderTarget | null
+): { body: string; target: ReminderTarget | null } | null {
+    const todayKey = toDateKey(new Date());
+    const portion = khatmStatus?.todayPortion?.day_date === dateKey
+        ? khatmStatus.todayPortion
+        : khatmStatus?.upcomingPortions.find(p => p.day_date === dateKey);
+
+    if (khatmStatus && portion) {
+        const firstPage = dateKey === todayKey ? Math.max(portion.start_page, khatmStatus.nextPage) : portion.start_page;
+        if (firstPage > portion.end_page) {
+            return null; // Today's portion is already read
+        }
+        return {
+            body: firstPage === portion.end_page
+                ? `ورد اليوم: الصفحة ${firstPage}`
+                : `ورد اليوم: الصفحات ${firstPage}–${portion.end_page}`,
+            target: { mushafId: khatmStatus.plan.mushaf_id, page: firstPage }
+        };
+    }
+
+    if (lastRead) {
+        return { body: `تابع القراءة من الصفحة ${lastRead.page}`, target: lastRead };
+    }
+
+    return { body: 'ابدأ وردك اليومي من القرآن الكريم', target: null };
+}
+
+async function cancelWirdReminders(): Promise<void> {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(scheduled
+        .filter(request => request.identifier.startsWith(IDENTIFIER_PREFIX))
+        .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier)));
+}
+
+/**
+ * Replaces the scheduled reminders with up-to-date messages, to be called
+ * on launch and whenever the reading progress changes
+ */
+export async function rescheduleWirdReminders(): Promise<void> {
+    await cancelWirdReminders();
+
+    const settings = await getReminderSettings();
+    if (!settings.enabled || settings.times.length === 0) {
+        return;
+    }
+    if (!(await Notifications.getPermissionsAsync()).granted) {
+        return;
+    }
+
+    if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+            name: 'تذكير الورد اليومي',
+            importance: Notifications.AndroidImportance.DEFAULT
+        });
+    }
+
+    const db = await getMainDatabase();
+    const [khatmStatus, lastPages] = await Promise.all([
+        getKhatmStatus().catch(() => null),
+        getLastReadPages(db)
+    ]);
+    const lastRead = lastPages[0] ? { mushafId: lastPages[0].mushaf_id, page: lastPages[0].page_number } : null;
+
+    const now = new Date();
+    for (let day = 0; day < SCHEDULE_DAYS; day++) {
+        const date = addDays(now, day);
+        const dateKey = toDateKey(date);
+        const reminder = buildReminder(dateKey, khatmStatus, lastRead);
+        if (!reminder) {
+            continue;
+        }
+
+        for (const time of settings.times) {
+            const triggerDate = new Date(date);
+            triggerDate.setHours(time.hour, time.minute, 0, 0);
+            if (triggerDate <= now) {
+                continue;
+            }
+
+            await Notifications.scheduleNotificationAsync({
+                identifier: `${IDENTIFIER_PREFIX}${dateKey}-${formatReminderTime(time)}`,
+                content: {
+                    title: '📖 حان وقت الورد',
+                    body: reminder.body,
+                    data: reminder.target ? { ...reminder.target } : {}
+                },
+                trigger: {
+                    type: Notifications.SchedulableTriggerInputTypes.DATE,
+                    date: triggerDate,
+                    channelId: CHANNEL_ID
+                }
+            });
+        }
+    }
+}
+
+/**
+ * Reader target of a tapped reminder, null for other notifications
+ */
+export function getReminderTarget(response: Notifications.NotificationResponse): ReminderTarget | null {
+    const { identifier, content } = response.notification.request;
+    if (!identifier.startsWith(IDENTIFIER_PREFIX)) {
+        return null;
+    }
+
+    const { mushafId, page } = content.data ?? {};
+    return typeof mushafId === 'number' && typeof page === 'number' ? { mushafId, page } : null;
+}
@@ -0,0 +1,133 @@
+import { validatePageResponse, validateSurah, validateSurahs, validateVerse } from '../ApiSchema';
+
+function makeWord(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 1,
+        position: 1,
+        audio_url: null,
+        char_type_name: 'word',
+        code_v1: 'ﭑ',
+        code_v2: 'ﭑ',
+        page_number: 1,
+        line_number: 2,
+        text: 'بِسْمِ',
+        ...overrides
+    };
+}
+
+function makeVerse(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 1,
+        verse_number: 1,
+        verse_key: '1:1',
+        hizb_number: 1,
+        rub_el_hizb_number: 1,
+        ruku_number: 1,
+        manzil_number: 1,
+        sajdah_number: null,
+        page_number: 1,
+        juz_number: 1,
+        words: [makeWord()],
+        ...overrides
+    };
+}
+
+function makePage(verses: unknown[]) {
+    return {
+        verses,
+        pagination: { per_page: 50, current_page: 1, next_page: null, total_pages: 1, total_records: verses.length }
+    };
+}
+
+function makeSurah(id: number, overrides: Record<string, unknown> = {}) {
+    return {
+        id,
+        revelation_place: 'makkah',
+        revelation_order: id,
+        bismillah_pre: id !== 1 && id !== 9,
+        name_simple: `Surah ${id}`,
+        name_complex: `Surah ${id}`,
+        name_arabic: 'سورة',
+        verses_count: 7,
+        pages: [1, 1],
+        translated_name: { language_name: 'english', name: 'The Opening' },
+        ...overrides
+    };
+}
+
+describe('validatePageResponse', () => {
+    it('returns a valid response unchanged', () => {
+        const page = makePage([makeVerse()]);
+        expect(validatePageResponse(page)).toBe(page);
+    });
+
+    it('reports the path of each problem', () => {
+        const page = makePage([makeVerse(), makeVerse({ verse_key: '1', words: [makeWord(), makeWord({ line_number: 16 })] })]);
+
+        expect(() => validatePageResponse(page)).toThrow(
+            'Invalid verses response:\n' +
+            'verses[1].verse_key: expected "surah:verse"\n' +
+            'verses[1].words[1].line_number: expected integer in 1-15'
+        );
+    });
+
+    it('requires words unless asked without them', () => {
+        const page = makePage([makeVerse({ words: undefined })]);
+
+        expect(() => validatePageResponse(page)).toThrow('verses[0].words: expected array');
+        expect(validatePageResponse(page, false)).toBe(page);
+    });
+
+    it('rejects a payload that is not an object', () => {
+        expect(() => validatePageResponse(null)).toThrow('response: expected object');
+        expect(() => validatePageResponse([])).toThrow('response: expected object');
+    });
+
+    it('summarizes long error lists', () => {
+        const words = Array.from({ length: 12 }, () => makeWord({ page_number: 0 }));
+        const message = (() => {
+            try {
+                validatePageResponse(makePage([makeVerse({ words })]));
+                return '';
+            } catch (error) {
+                return (error as Error).message;
+            }
+        })();
+
+        expect(message.split('\n')).toHaveLength(12);
+        expect(message).toMatch(/\.\.\. and 2 more$/);
+    });
+});
+
+describe('validateVerse', () => {
+    it('accepts an integer sajdah number', () => {
+        const verse = makeVerse({ sajdah_number: 1 });
+        expect(validateVerse(verse)).toBe(verse);
+    });
+
+    it('rejects an out of range juz', () => {
+        expect(() => validateVerse(makeVerse({ juz_number: 31 }))).toThrow('verse.juz_number: expected integer in 1-30');
+    });
+});
+
+describe('validateSurahs', () => {
+    const surahs = Array.from({ length: 114 }, (_, index) => makeSurah(index + 1));
+
+    it('accepts the 114 surahs', () => {
+        expect(validateSurahs(surahs)).toBe(surahs);
+    });
+
+    it('rejects an incomplete list', () => {
+        expect(() => validateSurahs(surahs.slice(1))).toThrow('chapters: expected 114 surahs');
+    });
+});
+
+describe('validateSurah', () => {
+    it('checks the page range and translated name', () => {
+        expect(() => validateSurah(makeSurah(1, { pages: [1], translated_name: { name: '' } }))).toThrow(
+            'Invalid chapter:\n' +
+            'chapter.pages: expected [first page, last page]\n' +
+            'chapter.translated_name.name: expected non-empty string'
+        );
+    });
+});
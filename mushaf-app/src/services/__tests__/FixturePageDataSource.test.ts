@@ -0,0 +1,43 @@
+import { FixturePageDataSource } from '../FixturePageDataSource';
+import { FATIHA_FIXTURES } from '../../data/fixtures';
+
+describe('FixturePageDataSource', () => {
+    const source = new FixturePageDataSource(FATIHA_FIXTURES);
+
+    it('serves Al-Fatiha as page 1 of 8 lines', async () => {
+        const page = await source.getPage(1);
+
+        expect(source.totalPages).toBe(1);
+        expect(page.pageNumber).toBe(1);
+        expect(page.lines).toHaveLength(8);
+        expect(page.firstVerseKey).toBe('1:1');
+        expect(page.division).toEqual({ juz: 1, hizb: 1, rub: 1 });
+        expect(page.lines.slice(1).map(line => line.words.length)).toEqual([5, 6, 6, 6, 5, 4, 4]);
+    });
+
+    it('fails for pages without a fixture', async () => {
+        await expect(source.getPage(2)).rejects.toThrow('No fixture for page 2');
+    });
+
+    it('finds verses of the fixture pages only', async () => {
+        const verse = await source.getVerse('1:7');
+
+        expect(verse.page_number).toBe(1);
+        expect(verse.words.map(word => word.line_number)).toEqual([6, 6, 7, 7, 7, 7, 8, 8, 8, 8]);
+        await expect(source.getVerse('2:1')).rejects.toThrow('No fixture for verse 2:1');
+    });
+
+    it('renders without fonts or network', async () => {
+        expect(await source.getPageFont()).toBeNull();
+        expect(await source.getCommonFonts()).toEqual({ surahNames: null, bismillah: null });
+        expect((await source.getSurahs()).map(surah => surah.name_arabic)).toEqual(['الفاتحة']);
+    });
+
+    it('lists the rub\' starting on its pages', async () => {
+        const starts = await source.getDivisionStarts();
+
+        expect(starts).toHaveLength(1);
+        expect(starts[0]).toMatchObject({ rub: 1, hizb: 1, juz: 1, verse_key: '1:1', page_number: 1 });
+        expect(starts[0].text).toBe('بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ');
+    });
+});
@@ -0,0 +1,32 @@
+import { getJson, OfflineError } from '../HttpClient';
+
+const URL = 'https://api.example.com/verses';
+
+function jsonResponse(text: () => Promise<string>): Response {
+    return { ok: true, status: 200, headers: new Headers(), text } as unknown as Response;
+}
+
+describe('getJson', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('parses the body of a successful response', async () => {
+        global.fetch = jest.fn().mockResolvedValue(jsonResponse(async () => '{"verses":[]}'));
+
+        await expect(getJson(URL)).resolves.toEqual({ verses: [] });
+    });
+
+    it('times out when the body stalls, and lets the next call through', async () => {
+        global.fetch = jest.fn().mockResolvedValue(jsonResponse(() => new Promise<string>(() => {})));
+
+        const request = getJson(URL, { timeoutMs: 20, retries: 0 });
+        await expect(request).rejects.toBeInstanceOf(OfflineError);
+        await expect(request).rejects.toMatchObject({ timedOut: true });
+
+        global.fetch = jest.fn().mockResolvedValue(jsonResponse(async () => '{"verses":[]}'));
+        await expect(getJson(URL, { timeoutMs: 20, retries: 0 })).resolves.toEqual({ verses: [] });
+    });
+});
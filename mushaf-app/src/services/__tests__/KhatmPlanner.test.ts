@@ -0,0 +1,51 @@
+import { countDays, planPortions } from '../KhatmPlanner';
+import { MADANI_JUZ_START_PAGES } from '../QuranDivisions';
+
+describe('countDays', () => {
+    it('counts both ends', () => {
+        expect(countDays('2026-03-01', '2026-03-01')).toBe(1);
+        expect(countDays('2026-03-01', '2026-03-30')).toBe(30);
+    });
+
+    it('crosses months and years', () => {
+        expect(countDays('2026-01-30', '2026-02-02')).toBe(4);
+        expect(countDays('2025-12-31', '2026-01-01')).toBe(2);
+    });
+});
+
+describe('planPortions', () => {
+    it('spreads pages evenly over consecutive days', () => {
+        expect(planPortions(1, 10, '2026-01-30', 3, 'page', [])).toEqual([
+            { day_date: '2026-01-30', start_page: 1, end_page: 3 },
+            { day_date: '2026-01-31', start_page: 4, end_page: 7 },
+            { day_date: '2026-02-01', start_page: 8, end_page: 10 }
+        ]);
+    });
+
+    it('gives one juz a day over 30 days with juz alignment', () => {
+        const portions = planPortions(1, 604, '2026-02-18', 30, 'juz', MADANI_JUZ_START_PAGES);
+
+        expect(portions).toHaveLength(30);
+        expect(portions.map(portion => portion.start_page)).toEqual(MADANI_JUZ_START_PAGES);
+        expect(portions[29]).toEqual({ day_date: '2026-03-19', start_page: 582, end_page: 604 });
+    });
+
+    it('covers every page once with juz alignment', () => {
+        const portions = planPortions(1, 604, '2026-02-18', 7, 'juz', MADANI_JUZ_START_PAGES);
+
+        expect(portions).toHaveLength(7);
+        expect(portions[0].start_page).toBe(1);
+        expect(portions[6].end_page).toBe(604);
+        portions.slice(1).forEach((portion, index) => {
+            expect(portion.start_page).toBe(portions[index].end_page + 1);
+            expect(MADANI_JUZ_START_PAGES).toContain(portion.start_page);
+        });
+    });
+
+    it('stops early when there are more days than pages', () => {
+        expect(planPortions(1, 2, '2026-03-01', 5, 'page', [])).toEqual([
+            { day_date: '2026-03-01', start_page: 1, end_page: 1 },
+            { day_date: '2026-03-02', start_page: 2, end_page: 2 }
+        ]);
+    });
+});
@@ -0,0 +1,145 @@
+import { APIPageResponse, APIWord, PageDataError, processPageData } from '../QuranAPI';
+import { FATIHA_FIXTURES } from '../../data/fixtures';
+
+const FATIHA_PAGE = FATIHA_FIXTURES.pages[1];
+
+/**
+ * Al-Fatiha's verses moved to another surah, page and lines, to lay out
+ * the headers of other pages
+ */
+function relocatedPage(surahNumber: number, pageNumber: number, lineOffset: number): APIPageResponse {
+    return {
+        ...FATIHA_PAGE,
+        verses: FATIHA_PAGE.verses.map(verse => ({
+            ...verse,
+            verse_key: `${surahNumber}:${verse.verse_number}`,
+            page_number: pageNumber,
+            words: verse.words.map(word => ({ ...word, page_number: pageNumber, line_number: word.line_number + lineOffset }))
+        }))
+    };
+}
+
+function lineTypes(page: APIPageResponse, pageNumber: number) {
+    return processPageData(page, pageNumber).lines.map(line =>
+        line.lineType === 'ayah' ? (line.words.length > 0 ? 'ayah' : 'empty') : `${line.lineType}:${line.surahNumber}`);
+}
+
+describe('processPageData headers', () => {
+    it('names Al-Fatiha above its first verse, without a separate basmallah', () => {
+        const page = processPageData(FATIHA_PAGE, 1, FATIHA_FIXTURES.surahs);
+
+        expect(page.lines[0]).toMatchObject({
+            lineType: 'surah_name',
+            surahNumber: 1,
+            surahNameArabic: 'الفاتحة',
+            isCentered: true,
+            words: []
+        });
+        expect(page.lines.slice(1).every(line => line.lineType === 'ayah')).toBe(true);
+    });
+
+    it('puts the basmallah between the surah name and the first verse', () => {
+        expect(lineTypes(relocatedPage(2, 3, 1), 3).slice(0, 3)).toEqual(['surah_name:2', 'basmallah:2', 'ayah']);
+    });
+
+    it('gives At-Tawbah no basmallah', () => {
+        expect(lineTypes(relocatedPage(9, 3, 1), 3).slice(0, 3)).toEqual(['empty', 'surah_name:9', 'ayah']);
+    });
+
+    it('labels the empty lines at the bottom with the next surah', () => {
+        const types = lineTypes(relocatedPage(2, 3, 1), 3);
+
+        expect(types.slice(8, 12)).toEqual(['ayah', 'surah_name:3', 'basmallah:3', 'empty']);
+        expect(types).toHaveLength(15);
+    });
+
+    it('gives no basmallah to At-Tawbah starting on the next page', () => {
+        expect(lineTypes(relocatedPage(8, 3, 1), 3).slice(8, 11)).toEqual(['ayah', 'surah_name:9', 'empty']);
+    });
+});
+
+describe('processPageData rub\' markers', () => {
+    function rubStarts(page: APIPageResponse, rubStartKeys?: Set<string>) {
+        return processPageData(page, 1, undefined, rubStartKeys).lines
+            .map((line, index) => [index + 1, line.rubStart])
+            .filter(([, rub]) => rub !== undefined);
+    }
+
+    it('marks the first verse of the page when it is a known rub\' start', () => {
+        expect(rubStarts(FATIHA_PAGE, new Set(['1:1']))).toEqual([[2, 1]]);
+    });
+
+    it('leaves the first verse unmarked without the known starts', () => {
+        expect(rubStarts(FATIHA_PAGE)).toEqual([]);
+        expect(rubStarts(FATIHA_PAGE, new Set(['2:1']))).toEqual([]);
+    });
+
+    it('marks the line where the rub\' number changes', () => {
+        const page = {
+            ...FATIHA_PAGE,
+            verses: FATIHA_PAGE.verses.map(verse => verse.verse_number >= 5 ? { ...verse, rub_el_hizb_number: 2 } : verse)
+        };
+
+        expect(rubStarts(page)).toEqual([[FATIHA_PAGE.verses[4].words[0].line_number, 2]]);
+    });
+
+    it('does not mark a verse continued from the previous page', () => {
+        const [first, ...rest] = FATIHA_PAGE.verses;
+        const page = {
+            ...FATIHA_PAGE,
+            verses: [{ ...first, words: first.words.map((word, index) => index === 0 ? { ...word, page_number: 0 } : word) }, ...rest]
+        };
+
+        expect(rubStarts(page, new Set(['1:1']))).toEqual([]);
+    });
+});
+
+describe('processPageData validation', () => {
+    /** Al-Fatiha with the words of verse 1:7 rewritten */
+    function withLastVerseWords(rewrite: (words: APIWord[]) => APIWord[]): APIPageResponse {
+        return {
+            ...FATIHA_PAGE,
+            verses: FATIHA_PAGE.verses.map(verse => verse.verse_key === '1:7' ? { ...verse, words: rewrite(verse.words) } : verse)
+        };
+    }
+
+    function pageDataError(page: APIPageResponse): PageDataError {
+        try {
+            processPageData(page, 1);
+        } catch (error) {
+            if (error instanceof PageDataError) {
+                return error;
+            }
+            throw error;
+        }
+        throw new Error('Expected a PageDataError');
+    }
+
+    it('rejects a line outside the page', () => {
+        const error = pageDataError(withLastVerseWords(words =>
+            words.map((word, index) => index === words.length - 1 ? { ...word, line_number: 9 } : word)));
+
+        expect(error.pageNumber).toBe(1);
+        expect(error.problems).toEqual([`1:7: word ${FATIHA_PAGE.verses[6].words.length} on line 9, outside 1-8`]);
+    });
+
+    it('rejects words out of order within a verse', () => {
+        const error = pageDataError(withLastVerseWords(([first, second, ...rest]) => [second, first, ...rest]));
+
+        expect(error.problems).toEqual(['1:7: word 1 comes after word 2']);
+    });
+
+    it('rejects lines going backwards', () => {
+        const error = pageDataError(withLastVerseWords(words => words.map(word => ({ ...word, line_number: 2 }))));
+
+        expect(error.problems[0]).toMatch(/^1:7: word 1 on line 2, after line \d+$/);
+        expect(error.message).toMatch(/^Invalid data for page 1:\n1:7: word 1 on line 2/);
+    });
+
+    it('skips the words of another page', () => {
+        const page = processPageData(withLastVerseWords(words =>
+            words.map((word, index) => index >= 6 ? { ...word, page_number: 2, line_number: 1 } : word)), 1);
+
+        expect(page.lines[7].words).toEqual([]);
+    });
+});
@@ -0,0 +1,148 @@
+import { addDays, computeReadingStats, groupByDay, MushafLayout } from '../ReadingStats';
+import { MADANI_JUZ_START_PAGES } from '../QuranDivisions';
+import { ReadingSession } from '../../types';
+
+function session(id: number, date: Date, pageNumber: number = id, mushafId: number = 0): ReadingSession {
+    return { id, mushaf_id: mushafId, page_number: pageNumber, duration_seconds: 60, timestamp: date.toISOString() };
+}
+
+/** One session a day at the given local time, from the first day for the given number of days */
+function dailySessions(first: Date, days: number): ReadingSession[] {
+    return Array.from({ length: days }, (_, index) => session(index + 1, addDays(first, index)));
+}
+
+const MADANI_LAYOUT: MushafLayout = { totalPages: 604, juzStartPages: MADANI_JUZ_START_PAGES, surahs: [] };
+
+function statsAt(sessions: ReadingSession[], now: Date, layouts = new Map<number, MushafLayout>()) {
+    return computeReadingStats(sessions, layouts, now);
+}
+
+describe('groupByDay', () => {
+    it('groups sessions of the same local day', () => {
+        const sections = groupByDay([
+            session(1, new Date(2026, 2, 2, 21, 0)),
+            session(2, new Date(2026, 2, 2, 8, 30)),
+            session(3, new Date(2026, 2, 1, 23, 50))
+        ]);
+
+        expect(sections.map(section => section.data.map(s => s.id))).toEqual([[1, 2], [3]]);
+        expect(sections[0].title).not.toBe(sections[1].title);
+    });
+
+    it('keeps the order given, a day seen again starts a new section', () => {
+        const sections = groupByDay([
+            session(1, new Date(2026, 2, 2, 9, 0)),
+            session(2, new Date(2026, 2, 1, 9, 0)),
+            session(3, new Date(2026, 2, 2, 10, 0))
+        ]);
+
+        expect(sections.map(section => section.data.map(s => s.id))).toEqual([[1], [2], [3]]);
+    });
+
+    it('returns no section without sessions', () => {
+        expect(groupByDay([])).toEqual([]);
+    });
+});
+
+describe('computeReadingStats streaks', () => {
+    const now = new Date(2026, 2, 10, 9, 0);
+
+    it('counts readings on both sides of midnight as two days', () => {
+        const stats = statsAt([
+            session(1, new Date(2026, 2, 9, 23, 55)),
+            session(2, new Date(2026, 2, 10, 0, 5))
+        ], now);
+
+        expect(stats.currentStreak).toBe(2);
+        expect(stats.longestStreak).toBe(2);
+        expect(stats.pagesToday).toBe(1);
+    });
+
+    it('counts a day by the reader\'s local time, not by the UTC date of the timestamp', () => {
+        // Early and late local readings: in any zone but UTC, one of them has another UTC date
+        const stats = statsAt([
+            session(1, new Date(2026, 2, 8, 0, 30)),
+            session(2, new Date(2026, 2, 8, 23, 30)),
+            session(3, new Date(2026, 2, 9, 0, 30)),
+            session(4, new Date(2026, 2, 10, 23, 30))
+        ], now);
+
+        expect(stats.currentStreak).toBe(3);
+        expect(stats.dailyPages.slice(-3)).toEqual([
+            { dateKey: '2026-03-08', pages: 2 },
+            { dateKey: '2026-03-09', pages: 1 },
+            { dateKey: '2026-03-10', pages: 1 }
+        ]);
+    });
+
+    it('keeps counting across daylight saving changes', () => {
+        // Spans the March changes of Europe and North America
+        const stats = statsAt(dailySessions(new Date(2026, 2, 1, 23, 30), 36), new Date(2026, 3, 5, 23, 45));
+
+        expect(stats.currentStreak).toBe(36);
+        expect(stats.longestStreak).toBe(36);
+    });
+
+    it('keeps the current streak until today\'s reading is done', () => {
+        const stats = statsAt(dailySessions(new Date(2026, 2, 7, 20, 0), 3), now);
+
+        expect(stats.pagesToday).toBe(0);
+        expect(stats.currentStreak).toBe(3);
+    });
+
+    it('breaks the current streak after a day without reading', () => {
+        const stats = statsAt(dailySessions(new Date(2026, 2, 6, 20, 0), 3), now);
+
+        expect(stats.currentStreak).toBe(0);
+        expect(stats.longestStreak).toBe(3);
+    });
+
+    it('tells the longest streak from the current one', () => {
+        const stats = statsAt([
+            ...dailySessions(new Date(2026, 1, 20, 7, 0), 5),
+            session(10, new Date(2026, 2, 1, 7, 0)),
+            ...dailySessions(new Date(2026, 2, 9, 7, 0), 2)
+        ], now);
+
+        expect(stats.currentStreak).toBe(2);
+        expect(stats.longestStreak).toBe(5);
+    });
+
+    it('has no streak without sessions', () => {
+        const stats = statsAt([], now);
+
+        expect(stats.currentStreak).toBe(0);
+        expect(stats.longestStreak).toBe(0);
+    });
+});
+
+describe('computeReadingStats juz coverage', () => {
+    const now = new Date(2026, 2, 10, 9, 0);
+    const pages = (first: number, last: number, mushafId: number = 0) =>
+        Array.from({ length: last - first + 1 }, (_, index) => session(first + index, now, first + index, mushafId));
+
+    it('gives the share of each juz read at least once', () => {
+        const stats = statsAt(
+            [...pages(1, 21), ...pages(22, 31), ...pages(22, 26), ...pages(604, 604)],
+            now,
+            new Map([[0, MADANI_LAYOUT]])
+        );
+
+        expect(stats.juzCoverage).toHaveLength(30);
+        expect(stats.juzCoverage[0]).toBe(1);
+        expect(stats.juzCoverage[1]).toBe(0.5);
+        expect(stats.juzCoverage[2]).toBe(0);
+        expect(stats.juzCoverage[29]).toBeCloseTo(1 / 23);
+    });
+
+    it('keeps the best coverage across Mushafs', () => {
+        const stats = statsAt(
+            [...pages(22, 31, 1), ...pages(22, 41, 2), ...pages(1, 21, 3)],
+            now,
+            new Map([[1, MADANI_LAYOUT], [2, MADANI_LAYOUT]])
+        );
+
+        expect(stats.juzCoverage[0]).toBe(0);
+        expect(stats.juzCoverage[1]).toBe(1);
+    });
+});
@@ -0,0 +1,49 @@
+import { Sha256 } from '../Sha256';
+
+// NIST FIPS 180-2 example messages
+const TWO_BLOCK_MESSAGE = 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq';
+
+function ascii(text: string): Uint8Array {
+    return Uint8Array.from(text, char => char.charCodeAt(0));
+}
+
+describe('Sha256', () => {
+    it('hashes the empty message', () => {
+        expect(new Sha256().hexDigest())
+            .toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    });
+
+    it('hashes "abc"', () => {
+        expect(new Sha256().update(ascii('abc')).hexDigest())
+            .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('hashes the 56-byte message padded over two blocks', () => {
+        expect(new Sha256().update(ascii(TWO_BLOCK_MESSAGE)).hexDigest())
+            .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+    });
+
+    it('gives the same digest when the input is split across updates', () => {
+        const bytes = ascii(TWO_BLOCK_MESSAGE);
+        const hash = new Sha256();
+        for (const [start, end] of [[0, 1], [1, 30], [30, 30], [30, 55], [55, 56]]) {
+            hash.update(bytes.subarray(start, end));
+        }
+        expect(hash.hexDigest()).toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+    });
+
+    it('hashes one million "a" fed in chunks', () => {
+        const chunk = new Uint8Array(1000).fill(0x61);
+        const hash = new Sha256();
+        for (let i = 0; i < 1000; i++) {
+            hash.update(chunk);
+        }
+        expect(hash.hexDigest()).toBe('cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0');
+    });
+
+    it('cannot be updated once finalized', () => {
+        const hash = new Sha256();
+        hash.hexDigest();
+        expect(() => hash.update(ascii('abc'))).toThrow('SHA-256 already finalized');
+    });
+});
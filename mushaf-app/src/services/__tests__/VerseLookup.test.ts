@@ -0,0 +1,57 @@
+import { normalizeArabic, resolveGoToQuery } from '../VerseLookup';
+import { FixturePageDataSource } from '../FixturePageDataSource';
+import { FATIHA_FIXTURES } from '../../data/fixtures';
+
+const source = new FixturePageDataSource(FATIHA_FIXTURES);
+
+const VERSE_5 = {
+    type: 'verse',
+    pageNumber: 1,
+    verseKey: '1:5',
+    wordIds: FATIHA_FIXTURES.pages[1].verses[4].words.map(word => word.id)
+};
+
+describe('resolveGoToQuery', () => {
+    it('resolves a page number', async () => {
+        await expect(resolveGoToQuery(' 1 ', source)).resolves.toEqual({ type: 'page', pageNumber: 1 });
+        await expect(resolveGoToQuery('١', source)).resolves.toEqual({ type: 'page', pageNumber: 1 });
+    });
+
+    it('rejects a page outside the Mushaf', async () => {
+        await expect(resolveGoToQuery('2', source)).rejects.toThrow('الرجاء إدخال رقم بين 1 و 1');
+        await expect(resolveGoToQuery('0', source)).rejects.toThrow('الرجاء إدخال رقم بين 1 و 1');
+    });
+
+    it('resolves a verse key with its words', async () => {
+        await expect(resolveGoToQuery('1:5', source)).resolves.toEqual(VERSE_5);
+        await expect(resolveGoToQuery('١:٥', source)).resolves.toEqual(VERSE_5);
+        await expect(resolveGoToQuery('1.5', source)).resolves.toEqual(VERSE_5);
+    });
+
+    it('resolves a surah name and verse', async () => {
+        await expect(resolveGoToQuery('الفاتحة 5', source)).resolves.toEqual(VERSE_5);
+        await expect(resolveGoToQuery('سورة الفاتحة 5', source)).resolves.toEqual(VERSE_5);
+        await expect(resolveGoToQuery('الفاتحه ٥', source)).resolves.toEqual(VERSE_5);
+        await expect(resolveGoToQuery('al-fatihah:5', source)).resolves.toEqual(VERSE_5);
+    });
+
+    it('rejects an unknown surah', async () => {
+        await expect(resolveGoToQuery('البقرة 255', source)).rejects.toThrow('لم يتم العثور على سورة «البقرة»');
+    });
+
+    it('rejects verses that cannot exist', async () => {
+        await expect(resolveGoToQuery('1:0', source)).rejects.toThrow('الآية 1:0 غير موجودة');
+        await expect(resolveGoToQuery('115:1', source)).rejects.toThrow('الآية 115:1 غير موجودة');
+    });
+
+    it('rejects other queries', async () => {
+        await expect(resolveGoToQuery('', source)).rejects.toThrow('أدخل رقم صفحة أو آية مثل 2:255 أو البقرة 255');
+    });
+});
+
+describe('normalizeArabic', () => {
+    it('ignores diacritics and letter variants', () => {
+        expect(normalizeArabic('ٱلْفَاتِحَة')).toBe(normalizeArabic('الفاتحه'));
+        expect(normalizeArabic('إِلَى')).toBe('الي');
+    });
+});
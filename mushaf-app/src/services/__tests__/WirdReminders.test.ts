@@ -0,0 +1,24 @@
+import { formatReminderTime, parseReminderTime } from '../WirdReminders';
+
+describe('parseReminderTime', () => {
+    it('parses hours and minutes', () => {
+        expect(parseReminderTime('20:00')).toEqual({ hour: 20, minute: 0 });
+        expect(parseReminderTime(' 7:05 ')).toEqual({ hour: 7, minute: 5 });
+    });
+
+    it('rejects out of range values', () => {
+        expect(parseReminderTime('24:00')).toBeNull();
+        expect(parseReminderTime('12:60')).toBeNull();
+    });
+
+    it('rejects other formats', () => {
+        expect(parseReminderTime('')).toBeNull();
+        expect(parseReminderTime('7h30')).toBeNull();
+        expect(parseReminderTime('7:5')).toBeNull();
+        expect(parseReminderTime('07:30:00')).toBeNull();
+    });
+
+    it('reads back formatted times', () => {
+        expect(parseReminderTime(formatReminderTime({ hour: 6, minute: 9 }))).toEqual({ hour: 6, minute: 9 });
+    });
+});
@@ -1,7 +1,11 @@
 // src/store/mushafStore.ts
 import { create } from 'zustand';
+import { getMainDatabase, getPreference, setPreference } from '../database/schema';
 import { DownloadProgress } from '../types';
 
+// Mushaf choisi dans la bibliothèque, rouvert au lancement suivant
+const CURRENT_MUSHAF_PREFERENCE = 'current_mushaf_id';
+
 interface MushafState {
     currentMushafId: number | null;
     currentPage: number;
@@ -26,7 +30,12 @@ export const useMushafStore = create<MushafState>((set) => ({
     downloadProgress: {},
     isLoading: false,
 
-    setCurrentMushaf: (id) => set({ currentMushafId: id, currentPage: 1 }),
+    setCurrentMushaf: (id) => {
+        set({ currentMushafId: id, currentPage: 1 });
+        getMainDatabase()
+            .then(db => setPreference(db, CURRENT_MUSHAF_PREFERENCE, String(id)))
+            .catch(error => console.log('Error saving current Mushaf:', error));
+    },
 
     setCurrentPage: (page) => set({ currentPage: page }),
 
@@ -53,3 +62,12 @@ export const useMushafStore = create<MushafState>((set) => ({
 
     setLoading: (loading) => set({ isLoading: loading })
 }));
+
+// Restores the Mushaf selected in a previous session, before the reader resolves its data source
+export async function restoreCurrentMushaf(): Promise<void> {
+    const db = await getMainDatabase();
+    const saved = await getPreference(db, CURRENT_MUSHAF_PREFERENCE);
+    if (saved !== null) {
+        useMushafStore.setState({ currentMushafId: parseInt(saved, 10) });
+    }
+}
@@ -2,6 +2,7 @@
 
 export interface Mushaf {
   id: number;
+  version: number; // Version du paquet dans le catalogue
   name: string;
   code: 'qpc_v1' | 'qpc_v2' | 'indopak_15' | 'digitalkhatt' | 'warsh';
   description: string;
@@ -15,13 +16,20 @@ export interface Mushaf {
     database_sqlite: string; // SQLite avec métadonnées exactes
     common_fonts_zip: string; // Polices communes (Bismillah, Surah names)
   };
+  mirror_urls?: Record<MushafArtifact, string[]>; // Miroirs utilisés si le fichier principal est corrompu
+  checksums?: Record<MushafArtifact, string>; // SHA-256 (hex) de chaque fichier téléchargé
+  file_sizes?: Record<MushafArtifact, number>; // Taille en octets de chaque fichier téléchargé
   preview_images: string[];
   checksum_sha256: string;
+  min_app_version?: string; // Version minimale de l'application, ex. "1.2.0"
   is_installed: boolean;
   installed_at?: string;
   local_path?: string;
 }
 
+// Fichiers téléchargés pour installer un Mushaf
+export type MushafArtifact = keyof Mushaf['download_urls'];
+
 export interface Word {
   id: number;
   location: string; // "1:1:1" (surah:ayah:word)
@@ -66,6 +74,7 @@ export interface Bookmark {
   mushaf_id: number;
   page_number: number;
   line_number?: number;
+  verse_key?: string; // "2:255", pour retrouver la page dans un autre Mushaf
   note?: string;
   created_at: string;
 }
@@ -78,6 +87,24 @@ export interface ReadingSession {
   timestamp: string;
 }
 
+export interface KhatmPlan {
+  id: number;
+  mushaf_id: number;
+  total_pages: number;
+  start_date: string; // YYYY-MM-DD, heure locale
+  end_date: string;   // Dernier jour inclus
+  alignment: 'page' | 'juz'; // Découpage des portions journalières
+  status: 'active' | 'completed' | 'abandoned';
+  created_at: string;
+}
+
+export interface KhatmPortion {
+  plan_id: number;
+  day_date: string; // YYYY-MM-DD
+  start_page: number;
+  end_page: number;
+}
+
 export interface DownloadProgress {
   mushaf_id: number;
   status: 'initializing' | 'downloading' | 'extracting' | 'verifying' | 'completed' | 'failed' | 'paused' | 'cancelled';
@@ -89,3 +116,43 @@ export interface DownloadProgress {
   current_step: string;
   error?: string;
 }
+
+// Résultat de la vérification d'un Mushaf déjà installé
+export interface InstallationReport {
+  mushaf_id: number;
+  missing_files: string[]; // Base de données et polices communes
+  missing_pages: number[];
+  corrupted_pages: number[]; // Police vide ou SHA-256 différent de celui de l'installation
+}
+
+// Répertoire laissé par un téléchargement en pause ou une installation interrompue
+export interface TemporaryDirectory {
+  mushaf_id: number;
+  path: string;
+  kind: 'staging' | 'backup';
+  is_paused: boolean; // Téléchargement en pause, supprimer ses fichiers l'annule
+}
+
+// Espace occupé par l'application, pour l'écran de stockage
+export interface StorageReport {
+  free_bytes: number;
+  total_bytes: number;
+  mushafs: { mushaf_id: number; name: string; bytes: number }[];
+  page_cache: { entries: number; bytes: number };
+  font_cache: { entries: number; bytes: number }; // Polices des pages lues sans Mushaf installé
+  temporary_directories: (TemporaryDirectory & { bytes: number })[];
+}
+
+// Téléchargement en file d'attente dans le DownloadManager
+export interface QueuedDownload {
+  mushaf_id: number;
+  priority: number; // Le plus grand passe en premier, puis l'ordre d'arrivée
+  enqueued_at: string;
+  allow_cellular: boolean; // Autorisé hors Wi-Fi par l'utilisateur
+  state: 'waiting' | 'waiting_for_wifi' | 'active';
+}
+
+export interface DownloadQueueSettings {
+  max_concurrent: number;
+  wifi_only: boolean;
+}